@@ -0,0 +1,92 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { Request } from "express";
+
+import ApiKeyModel from "../models/ApiKeyModel";
+import AccountModel from "../models/AccountModel";
+import BaseError from "../types/error";
+import { JwtPayload } from "../types/jwt";
+import { Permission } from "../types/role";
+
+// Keys look like csk_<12 hex>_<secret>, the first part is the stored prefix.
+const API_KEY_PREFIX = "csk_";
+const API_KEY_PATTERN = /^(csk_[0-9a-f]{12})_[\w-]{32}$/;
+
+const InvalidApiKey = new BaseError("Invalid API key", 401);
+
+interface ApiKeyCaller {
+    keyId: string;
+    user: JwtPayload;
+    permissions: Permission[];
+}
+
+function hashApiKey(key: string): string {
+    return createHash("sha256").update(key).digest("hex");
+}
+
+function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+    const prefix = API_KEY_PREFIX + randomBytes(6).toString("hex");
+    const key = `${prefix}_${randomBytes(24).toString("base64url")}`;
+    return { key, prefix, keyHash: hashApiKey(key) };
+}
+
+// API keys are sent in X-API-Key, or as the bearer token in place of a JWT.
+function extractApiKey(req: Request): string | undefined {
+    const header = req.headers["x-api-key"];
+    if (typeof header === "string" && header) {
+        return header;
+    }
+
+    const token = req.headers.authorization?.split(" ")[1];
+    if (token?.startsWith(API_KEY_PREFIX)) {
+        return token;
+    }
+}
+
+/**
+ * Resolve an API key to the account it acts for and the permissions it is
+ * limited to, recording its use. Throws InvalidApiKey for unknown, revoked or
+ * expired keys and for keys whose account can no longer log in.
+ */
+async function authenticateApiKey(key: string): Promise<ApiKeyCaller> {
+    const match = API_KEY_PATTERN.exec(key);
+    if (!match) {
+        throw InvalidApiKey;
+    }
+
+    const apiKey = await ApiKeyModel.findOne({ prefix: match[1] }).exec();
+    if (
+        !apiKey ||
+        !timingSafeEqual(
+            Buffer.from(apiKey.keyHash, "hex"),
+            Buffer.from(hashApiKey(key), "hex")
+        ) ||
+        apiKey.revokedAt ||
+        (apiKey.expiresAt && apiKey.expiresAt <= new Date())
+    ) {
+        throw InvalidApiKey;
+    }
+
+    const account = await AccountModel.findById(apiKey.account).exec();
+    if (!account || !account.isActive) {
+        throw InvalidApiKey;
+    }
+
+    await ApiKeyModel.updateOne(
+        { _id: apiKey._id },
+        { lastUsedAt: new Date() }
+    ).exec();
+
+    return {
+        keyId: apiKey.id,
+        user: {
+            id: account.id,
+            email: account.email,
+            name: account.name,
+            role: account.role,
+        },
+        permissions: apiKey.permissions,
+    };
+}
+
+export type { ApiKeyCaller };
+export { generateApiKey, extractApiKey, authenticateApiKey };
@@ -1,132 +1,282 @@
+import { Role, Permission, PermissionOverride } from "../types/role";
 import {
-    Role,
-    RoleDefinitions,
-    Permission,
-    isValidRole,
-    getAllPermissions,
-} from "../types/role";
+    getRoleDefinition,
+    getRolePermissions,
+    findPermissionSource,
+} from "./roles";
 
+// Roles are looked up in the cached role store, see helpers/roles.ts. Unknown
+// role names never grant anything.
+
+function isOverrideActive(override: PermissionOverride): boolean {
+    return !override.expiresAt || override.expiresAt.getTime() > Date.now();
+}
+
+function findOverride(
+    overrides: PermissionOverride[],
+    permission: Permission,
+    effect: PermissionOverride["effect"]
+): boolean {
+    return overrides.some(
+        (override) =>
+            override.permission === permission &&
+            override.effect === effect &&
+            isOverrideActive(override)
+    );
+}
+
+/**
+ * Per-account overrides are applied on top of the role: a denial always
+ * wins, then a grant, then whatever the role allows. Admin ignores them.
+ */
 function hasPermission(
     userRole: string | Role,
-    requiredPermission: Permission
+    requiredPermission: Permission,
+    overrides: PermissionOverride[] = []
 ): boolean {
-    const userRoleEnum =
-        typeof userRole === "string"
-            ? isValidRole(userRole)
-                ? (userRole as Role)
-                : null
-            : userRole;
-
-    if (!userRoleEnum) {
+    const roleDef = getRoleDefinition(userRole);
+
+    if (!roleDef) {
         return false;
     }
 
-    const roleDef = RoleDefinitions[userRoleEnum];
+    if (userRole === Role.Admin) {
+        return true;
+    }
+
+    if (findOverride(overrides, requiredPermission, "deny")) {
+        return false;
+    }
 
-    if (
-        userRoleEnum === Role.Admin ||
-        roleDef.permissions.includes(Permission.MANAGE_ALL)
-    ) {
+    if (findOverride(overrides, requiredPermission, "grant")) {
         return true;
     }
 
-    return getAllPermissions(userRoleEnum).includes(requiredPermission);
+    const permissions = getRolePermissions(userRole);
+
+    return (
+        permissions.includes(Permission.MANAGE_ALL) ||
+        permissions.includes(requiredPermission)
+    );
 }
 
 function hasAllPermissions(
     userRole: string | Role,
-    requiredPermissions: Permission[]
+    requiredPermissions: Permission[],
+    overrides: PermissionOverride[] = []
 ): boolean {
-    const userRoleEnum =
-        typeof userRole === "string"
-            ? isValidRole(userRole)
-                ? (userRole as Role)
-                : null
-            : userRole;
-
-    if (!userRoleEnum) {
+    if (!getRoleDefinition(userRole)) {
         return false;
     }
 
-    if (userRoleEnum === Role.Admin) {
+    if (userRole === Role.Admin) {
         return true;
     }
 
     return requiredPermissions.every((permission) =>
-        hasPermission(userRoleEnum, permission)
+        hasPermission(userRole, permission, overrides)
     );
 }
 
+// Deduplicated permissions the account ends up with once overrides apply.
+function getEffectivePermissions(
+    userRole: string | Role,
+    overrides: PermissionOverride[] = []
+): Permission[] {
+    if (!getRoleDefinition(userRole)) {
+        return [];
+    }
+
+    return Object.values(Permission).filter((permission) =>
+        hasPermission(userRole, permission, overrides)
+    );
+}
+
+interface PermissionExplanation {
+    granted: boolean;
+    reason: string;
+    chain?: string[];
+    override?: PermissionOverride;
+}
+
+/**
+ * Say why hasPermission answers the way it does, following the same order:
+ * unknown role, Admin, denial, grant, then the extendFrom chain that carries
+ * the permission (or MANAGE_ALL).
+ */
+function explainPermission(
+    userRole: string | Role,
+    permission: Permission,
+    overrides: PermissionOverride[] = []
+): PermissionExplanation {
+    if (!getRoleDefinition(userRole)) {
+        return { granted: false, reason: `Unknown role ${userRole}` };
+    }
+
+    if (userRole === Role.Admin) {
+        return { granted: true, reason: "Admin has every permission" };
+    }
+
+    const active = overrides.filter(
+        (override) =>
+            override.permission === permission && isOverrideActive(override)
+    );
+    const deny = active.find((override) => override.effect === "deny");
+    if (deny) {
+        return {
+            granted: false,
+            reason: "Denied by an account override",
+            override: deny,
+        };
+    }
+
+    const grant = active.find((override) => override.effect === "grant");
+    if (grant) {
+        return {
+            granted: true,
+            reason: "Granted by an account override",
+            override: grant,
+        };
+    }
+
+    const chain = findPermissionSource(userRole, permission);
+    if (chain) {
+        return {
+            granted: true,
+            reason: `Granted by role ${chain[chain.length - 1]}`,
+            chain,
+        };
+    }
+
+    const manageAll = findPermissionSource(userRole, Permission.MANAGE_ALL);
+    if (manageAll) {
+        return {
+            granted: true,
+            reason: `Role ${manageAll[manageAll.length - 1]} has ${Permission.MANAGE_ALL}`,
+            chain: manageAll,
+        };
+    }
+
+    return {
+        granted: false,
+        reason: `No role in the hierarchy of ${userRole} has ${permission}`,
+    };
+}
+
 function hasRequiredRole(
     userRole: string | Role,
     requiredRole: string | Role
 ): boolean {
-    const userRoleEnum =
-        typeof userRole === "string"
-            ? isValidRole(userRole)
-                ? (userRole as Role)
-                : null
-            : userRole;
-
-    const requiredRoleEnum =
-        typeof requiredRole === "string"
-            ? isValidRole(requiredRole)
-                ? (requiredRole as Role)
-                : null
-            : requiredRole;
-
-    if (!userRoleEnum || !requiredRoleEnum) {
+    const userDef = getRoleDefinition(userRole);
+    const requiredDef = getRoleDefinition(requiredRole);
+
+    if (!userDef || !requiredDef) {
         return false;
     }
 
-    if (userRoleEnum === Role.Admin) {
+    if (userRole === Role.Admin) {
         return true;
     }
 
-    const requiredPermissions = RoleDefinitions[requiredRoleEnum].permissions;
-
-    return hasAllPermissions(userRoleEnum, requiredPermissions);
+    return hasAllPermissions(userRole, requiredDef.permissions);
 }
 
 function compareManagerRoles(
     userRole: string | Role,
     requiredRole: string | Role
 ): boolean {
-    const userRoleEnum =
-        typeof userRole === "string"
-            ? isValidRole(userRole)
-                ? (userRole as Role)
-                : null
-            : userRole;
-
-    const requiredRoleEnum =
-        typeof requiredRole === "string"
-            ? isValidRole(requiredRole)
-                ? (requiredRole as Role)
-                : null
-            : requiredRole;
-
-    if (!userRoleEnum || !requiredRoleEnum) {
+    const userDef = getRoleDefinition(userRole);
+    const requiredDef = getRoleDefinition(requiredRole);
+
+    if (!userDef || !requiredDef) {
         return false;
     }
 
-    if (userRoleEnum === Role.Admin) {
+    if (userRole === Role.Admin) {
         return true;
     }
 
-    const userDef = RoleDefinitions[userRoleEnum];
-    const requiredDef = RoleDefinitions[requiredRoleEnum];
-
     if (!userDef.isManager || !requiredDef.isManager) {
         return false;
     }
 
-    return hasAllPermissions(userRoleEnum, requiredDef.permissions);
+    return hasAllPermissions(userRole, requiredDef.permissions);
+}
+
+/**
+ * A role can only be handed out by someone who already holds every permission
+ * it carries, inherited ones included, so nobody can create or promote an
+ * account above themselves. Manager roles additionally go through
+ * compareManagerRoles. Only Admin can assign Admin. The same check guards
+ * every change made to another account: a manager only acts on accounts whose
+ * role they could have assigned.
+ */
+function canAssignRole(
+    userRole: string | Role,
+    targetRole: string | Role,
+    overrides: PermissionOverride[] = []
+): boolean {
+    const targetDef = getRoleDefinition(targetRole);
+
+    if (!getRoleDefinition(userRole) || !targetDef) {
+        return false;
+    }
+
+    if (userRole === Role.Admin) {
+        return true;
+    }
+
+    if (targetRole === Role.Admin) {
+        return false;
+    }
+
+    if (targetDef.isManager && !compareManagerRoles(userRole, targetRole)) {
+        return false;
+    }
+
+    return hasAllPermissions(
+        userRole,
+        Array.from(new Set(getRolePermissions(targetRole))),
+        overrides
+    );
+}
+
+/**
+ * Stricter than canAssignRole: the target role must not be able to assign
+ * `userRole` back either, so peers with the same permissions never outrank
+ * each other. Only Admin outranks every other role.
+ */
+function outranksRole(
+    userRole: string | Role,
+    targetRole: string | Role,
+    overrides: PermissionOverride[] = []
+): boolean {
+    return (
+        canAssignRole(userRole, targetRole, overrides) &&
+        !canAssignRole(targetRole, userRole)
+    );
+}
+
+function isManagerRole(userRole: string | Role): boolean {
+    return userRole === Role.Admin || !!getRoleDefinition(userRole)?.isManager;
+}
+
+// Managers and Admin can delete employees and rewrite stock, a password alone
+// is not enough for them.
+function isTwoFactorRequired(userRole: string | Role): boolean {
+    return isManagerRole(userRole);
 }
 
 export {
     hasPermission,
     hasAllPermissions,
+    getEffectivePermissions,
+    explainPermission,
+    isOverrideActive,
     hasRequiredRole,
     compareManagerRoles,
+    canAssignRole,
+    outranksRole,
+    isManagerRole,
+    isTwoFactorRequired,
 };
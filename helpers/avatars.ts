@@ -0,0 +1,101 @@
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+
+import BaseError from "../types/error";
+import { StoredFile } from "../types/storage";
+import { getStorage } from "./storage";
+
+const AVATAR_MAX_SIZE = 5 * 1024 * 1024; // 5 MB, in bytes
+const AVATAR_MAX_PIXELS = 40 * 1000 * 1000; // refuse decompression bombs
+const AVATAR_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const AVATAR_FORMATS = ["jpeg", "png", "webp"];
+
+// Square thumbnails kept for every avatar, the original is not stored.
+const AvatarSizes = {
+    small: 64,
+    medium: 256,
+    large: 512,
+};
+
+type AvatarSize = keyof typeof AvatarSizes;
+
+const AvatarNotValid = new BaseError(
+    "Avatar must be a JPEG, PNG or WebP image",
+    400
+);
+
+function isAvatarSize(size: string): size is AvatarSize {
+    return Object.prototype.hasOwnProperty.call(AvatarSizes, size);
+}
+
+function avatarKey(avatarPath: string, size: AvatarSize): string {
+    return `${avatarPath}-${size}.webp`;
+}
+
+/**
+ * Decode the upload, which must really be one of the accepted formats
+ * whatever the client claimed, and store a WebP thumbnail per size. Returns
+ * the path to save in avatarPath.
+ */
+async function saveAvatar(accountId: string, upload: Buffer): Promise<string> {
+    let format: string | undefined;
+    try {
+        ({ format } = await sharp(upload, {
+            limitInputPixels: AVATAR_MAX_PIXELS,
+        }).metadata());
+    } catch (err) {
+        throw AvatarNotValid;
+    }
+
+    if (!format || !AVATAR_FORMATS.includes(format)) {
+        throw AvatarNotValid;
+    }
+
+    const avatarPath = `avatars/${accountId}/${randomUUID()}`;
+    for (const size of Object.keys(AvatarSizes) as AvatarSize[]) {
+        const thumbnail = await sharp(upload, {
+            limitInputPixels: AVATAR_MAX_PIXELS,
+        })
+            .rotate()
+            .resize(AvatarSizes[size], AvatarSizes[size], { fit: "cover" })
+            .webp()
+            .toBuffer();
+        await getStorage().put(
+            avatarKey(avatarPath, size),
+            thumbnail,
+            "image/webp"
+        );
+    }
+
+    return avatarPath;
+}
+
+function readAvatar(
+    avatarPath: string,
+    size: AvatarSize
+): Promise<StoredFile | null> {
+    return getStorage().get(avatarKey(avatarPath, size));
+}
+
+async function removeAvatar(avatarPath: string): Promise<void> {
+    if (!avatarPath) {
+        return;
+    }
+
+    await Promise.all(
+        (Object.keys(AvatarSizes) as AvatarSize[]).map((size) =>
+            getStorage().remove(avatarKey(avatarPath, size))
+        )
+    );
+}
+
+export type { AvatarSize };
+export {
+    AVATAR_MAX_SIZE,
+    AVATAR_TYPES,
+    AvatarSizes,
+    isAvatarSize,
+    saveAvatar,
+    readAvatar,
+    removeAvatar,
+};
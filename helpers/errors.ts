@@ -8,6 +8,7 @@ function handleError(err: BaseError | Error | any, res?: Response) {
                   res.status(err.errorCode).json({
                       result: "error",
                       message: err.message,
+                      ...(err.details !== undefined && { errors: err.details }),
                   });
               } else if (err instanceof Error) {
                   res.status(500).json({
@@ -10,4 +10,22 @@ function checkEmptyFields(requiredFields: string[], source: any) {
     return false;
 }
 
-export { checkEmptyFields };
+// Boolean setting from the environment, only "true" turns it on
+function readEnvFlag(name: string, fallback: boolean): boolean {
+    const value = process.env[name];
+    return value === undefined || value === "" ? fallback : value === "true";
+}
+
+function readEnvNumber(name: string, fallback: number): number {
+    const value = parseFloat(process.env[name] || "");
+    return isNaN(value) ? fallback : value;
+}
+
+// Loose on purpose, only the verification mail proves an address works
+function isValidEmail(value: unknown): value is string {
+    return (
+        typeof value === "string" && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)
+    );
+}
+
+export { checkEmptyFields, readEnvFlag, readEnvNumber, isValidEmail };
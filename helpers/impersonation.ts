@@ -0,0 +1,99 @@
+import { randomUUID } from "crypto";
+import { Request, Response } from "express";
+import { HydratedDocument } from "mongoose";
+
+import ImpersonationModel from "../models/ImpersonationModel";
+import { IAccount } from "../models/AccountModel";
+import { JwtPayload } from "../types/jwt";
+import { signAccessToken, revokeAccessToken } from "./token";
+
+const IMPERSONATION_TOKEN_TTL = 10 * 60; // 10 minutes, in seconds
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Issue a token that acts as `target` and names `admin` as the impersonator.
+ * It has no session and no refresh token, so it dies with its short expiry
+ * or when stopped.
+ */
+async function startImpersonation(
+    admin: JwtPayload,
+    target: HydratedDocument<IAccount>,
+    reason: string,
+    allowWrite: boolean
+): Promise<{ token: string; expiresIn: number }> {
+    const jti = randomUUID();
+
+    await ImpersonationModel.create({
+        admin: admin.id,
+        target: target.id,
+        reason,
+        allowWrite,
+        jti,
+        expiresAt: new Date(Date.now() + IMPERSONATION_TOKEN_TTL * 1000),
+    });
+
+    const token = signAccessToken(
+        {
+            id: target.id,
+            email: target.email,
+            name: target.name,
+            role: target.role,
+            impersonator: {
+                id: admin.id,
+                email: admin.email,
+                name: admin.name,
+            },
+            allowWrite,
+        },
+        { expiresIn: IMPERSONATION_TOKEN_TTL, jwtid: jti }
+    );
+
+    return { token, expiresIn: IMPERSONATION_TOKEN_TTL };
+}
+
+async function stopImpersonation(user: JwtPayload): Promise<void> {
+    await revokeAccessToken(user);
+    await ImpersonationModel.updateOne(
+        { jti: user.jti, endedAt: { $exists: false } },
+        { endedAt: new Date() }
+    );
+}
+
+// Anything but a read needs the impersonation to have been started with
+// allowWrite.
+function isImpersonationBlocked(req: Request, user: JwtPayload): boolean {
+    return (
+        !!user.impersonator &&
+        !user.allowWrite &&
+        !SAFE_METHODS.includes(req.method)
+    );
+}
+
+// Append the request to the impersonation record once its status is known.
+function logImpersonatedRequest(req: Request, res: Response, user: JwtPayload) {
+    const { method, originalUrl } = req;
+
+    res.on("finish", () => {
+        ImpersonationModel.updateOne(
+            { jti: user.jti },
+            {
+                $push: {
+                    requests: {
+                        method,
+                        path: originalUrl,
+                        status: res.statusCode,
+                        at: new Date(),
+                    },
+                },
+            }
+        ).catch(console.log);
+    });
+}
+
+export {
+    IMPERSONATION_TOKEN_TTL,
+    startImpersonation,
+    stopImpersonation,
+    isImpersonationBlocked,
+    logImpersonatedRequest,
+};
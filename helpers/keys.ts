@@ -0,0 +1,165 @@
+import {
+    KeyObject,
+    createPrivateKey,
+    createPublicKey,
+    generateKeyPairSync,
+    randomUUID,
+} from "crypto";
+
+import SigningKeyModel from "../models/SigningKeyModel";
+
+const SIGNING_ALGORITHM = "ES256";
+const KEY_ROTATION_INTERVAL = 30 * 24 * 60 * 60 * 1000; // 30 days, in ms
+// New keys are published this long before they sign anything, so every
+// instance and every JWKS consumer knows them by the time tokens show up.
+const KEY_PREPUBLISH = 60 * 60 * 1000; // 1 hour, in ms
+// Retired keys keep verifying for longer than the longest lived token we
+// sign (email verification, 1 day).
+const KEY_VERIFY_GRACE = 2 * 24 * 60 * 60 * 1000; // 2 days, in ms
+const KEY_CACHE_TTL = 60 * 1000; // 1 minute, in ms
+
+interface SigningKey {
+    kid: string;
+    privateKey: KeyObject;
+    publicKey: KeyObject;
+    activatesAt: Date;
+    expiresAt?: Date;
+}
+
+let keyCache: SigningKey[] = [];
+let loadedAt = 0;
+let loading: Promise<void> | null = null;
+
+function getKeyPassphrase(): string {
+    const JWT_KEY_PASSPHRASE = process.env.JWT_KEY_PASSPHRASE;
+
+    if (!JWT_KEY_PASSPHRASE) {
+        throw new Error("JWT_KEY_PASSPHRASE is not defined");
+    }
+
+    return JWT_KEY_PASSPHRASE;
+}
+
+async function createSigningKey(activatesAt: Date): Promise<void> {
+    const { publicKey, privateKey } = generateKeyPairSync("ec", {
+        namedCurve: "P-256",
+    });
+
+    await SigningKeyModel.create({
+        kid: randomUUID(),
+        algorithm: SIGNING_ALGORITHM,
+        publicKey: publicKey.export({ type: "spki", format: "pem" }),
+        privateKey: privateKey.export({
+            type: "pkcs8",
+            format: "pem",
+            cipher: "aes-256-cbc",
+            passphrase: getKeyPassphrase(),
+        }),
+        activatesAt,
+    });
+}
+
+/**
+ * Schedule the next key and give the current ones an end date. The current
+ * key keeps signing until the new one activates, then verifies for the
+ * grace period.
+ */
+async function rotateSigningKey(): Promise<void> {
+    const activatesAt = new Date(Date.now() + KEY_PREPUBLISH);
+
+    await createSigningKey(activatesAt);
+    await SigningKeyModel.updateMany(
+        { activatesAt: { $lt: activatesAt }, expiresAt: { $exists: false } },
+        { expiresAt: new Date(activatesAt.getTime() + KEY_VERIFY_GRACE) }
+    );
+}
+
+/**
+ * Load the keys from the database, creating the first one or rotating when
+ * the newest is older than the rotation interval. Instances racing on a
+ * rotation only end up with an extra published key.
+ */
+async function loadSigningKeys(): Promise<void> {
+    let keys = await SigningKeyModel.find().sort({ activatesAt: -1 }).lean();
+
+    if (keys.length === 0) {
+        await createSigningKey(new Date());
+        keys = await SigningKeyModel.find().sort({ activatesAt: -1 }).lean();
+    } else if (
+        keys[0].activatesAt.getTime() + KEY_ROTATION_INTERVAL <=
+        Date.now()
+    ) {
+        await rotateSigningKey();
+        keys = await SigningKeyModel.find().sort({ activatesAt: -1 }).lean();
+    }
+
+    const passphrase = getKeyPassphrase();
+    keyCache = keys.map((key) => ({
+        kid: key.kid,
+        privateKey: createPrivateKey({ key: key.privateKey, passphrase }),
+        publicKey: createPublicKey(key.publicKey),
+        activatesAt: key.activatesAt,
+        expiresAt: key.expiresAt,
+    }));
+    loadedAt = Date.now();
+}
+
+// Same refresh pattern as the role cache, see helpers/roles.ts
+function ensureSigningKeys(): Promise<void> {
+    if (Date.now() - loadedAt < KEY_CACHE_TTL) {
+        return Promise.resolve();
+    }
+
+    if (!loading) {
+        loading = loadSigningKeys().finally(() => {
+            loading = null;
+        });
+    }
+    return loading;
+}
+
+function isKeyExpired(key: SigningKey): boolean {
+    return !!key.expiresAt && key.expiresAt.getTime() <= Date.now();
+}
+
+// The newest key that is already active signs, keys are sorted newest first.
+function getSigningKey(): SigningKey {
+    const now = Date.now();
+    const key = keyCache.find(
+        (key) => key.activatesAt.getTime() <= now && !isKeyExpired(key)
+    );
+
+    if (!key) {
+        throw new Error("No signing key loaded");
+    }
+
+    return key;
+}
+
+function getVerificationKey(kid: string): SigningKey | undefined {
+    return keyCache.find((key) => key.kid === kid && !isKeyExpired(key));
+}
+
+// Public keys in JWK Set format, scheduled ones included.
+function getJwks(): { keys: object[] } {
+    return {
+        keys: keyCache
+            .filter((key) => !isKeyExpired(key))
+            .map((key) => ({
+                ...key.publicKey.export({ format: "jwk" }),
+                kid: key.kid,
+                use: "sig",
+                alg: SIGNING_ALGORITHM,
+            })),
+    };
+}
+
+export {
+    SIGNING_ALGORITHM,
+    loadSigningKeys,
+    ensureSigningKeys,
+    rotateSigningKey,
+    getSigningKey,
+    getVerificationKey,
+    getJwks,
+};
@@ -0,0 +1,74 @@
+import { HydratedDocument } from "mongoose";
+
+import AccountModel, { IAccount } from "../models/AccountModel";
+
+const FREE_ATTEMPTS = 3; // failures allowed before any delay
+const MAX_DELAY_ATTEMPTS = 10; // failures before the long lockout
+const LOCKOUT_DURATION = 15 * 60 * 1000; // 15 minutes, in ms
+
+/**
+ * How long an account is locked after its `attempts`-th consecutive failure:
+ * nothing for the first few, then a delay doubling from one second, then a
+ * flat lockout.
+ */
+function getLockDuration(attempts: number): number {
+    if (attempts < FREE_ATTEMPTS) {
+        return 0;
+    }
+
+    if (attempts >= MAX_DELAY_ATTEMPTS) {
+        return LOCKOUT_DURATION;
+    }
+
+    return 2 ** (attempts - FREE_ATTEMPTS) * 1000;
+}
+
+// Remaining lock time in ms, 0 when the account can try again.
+function getLockRemaining(account: HydratedDocument<IAccount>): number {
+    if (!account.lockedUntil) {
+        return 0;
+    }
+
+    return Math.max(0, account.lockedUntil.getTime() - Date.now());
+}
+
+// Written with $inc and plain updates rather than save(), so parallel attempts
+// cannot overwrite each other's count and a pending save of the caller's copy
+// of the account does not touch these fields.
+async function registerFailedLogin(account: HydratedDocument<IAccount>) {
+    const updated = await AccountModel.findOneAndUpdate(
+        { _id: account._id },
+        {
+            $inc: { failedLoginAttempts: 1 },
+            $set: { lastFailedLoginAt: new Date() },
+        },
+        { new: true }
+    ).exec();
+    if (!updated) {
+        return;
+    }
+
+    const duration = getLockDuration(updated.failedLoginAttempts);
+    if (duration > 0) {
+        await AccountModel.updateOne(
+            { _id: account._id },
+            { $set: { lockedUntil: new Date(Date.now() + duration) } }
+        );
+    }
+}
+
+async function clearFailedLogins(account: HydratedDocument<IAccount>) {
+    if (account.failedLoginAttempts === 0 && !account.lockedUntil) {
+        return;
+    }
+
+    await AccountModel.updateOne(
+        { _id: account._id },
+        {
+            $set: { failedLoginAttempts: 0 },
+            $unset: { lastFailedLoginAt: "", lockedUntil: "" },
+        }
+    );
+}
+
+export { getLockRemaining, registerFailedLogin, clearFailedLogins };
@@ -0,0 +1,58 @@
+import { HydratedDocument } from "mongoose";
+
+import OutboxModel from "../models/OutboxModel";
+import { IAccount } from "../models/AccountModel";
+import { MailMessage, MailTransport } from "../types/mail";
+import { signActionToken } from "./token";
+
+const VERIFY_EMAIL_TOKEN_TTL = 24 * 60 * 60; // 1 day, in seconds
+
+// Stores mail in the outbox collection instead of delivering it, which is
+// what dev and test environments use to read verification links.
+const OutboxTransport: MailTransport = {
+    send: async (message: MailMessage) => {
+        await OutboxModel.create(message);
+    },
+};
+
+let transport: MailTransport = OutboxTransport;
+
+function setMailTransport(newTransport: MailTransport) {
+    transport = newTransport;
+}
+
+function sendMail(message: MailMessage): Promise<void> {
+    return transport.send(message);
+}
+
+function buildAppLink(path: string, params: Record<string, string>): string {
+    const appUrl = process.env.APP_URL || "http://localhost:3000";
+    const query = new URLSearchParams(params).toString();
+    return `${appUrl}${path}?${query}`;
+}
+
+async function sendVerificationEmail(account: HydratedDocument<IAccount>) {
+    const token = signActionToken(
+        "verify-email",
+        account.id,
+        VERIFY_EMAIL_TOKEN_TTL
+    );
+    const link = buildAppLink("/verify-email", { token });
+
+    await sendMail({
+        to: account.email,
+        subject: "Verify your email address",
+        text: `Hi ${account.name},\n\nPlease confirm your email address by opening the link below. It expires in 24 hours.\n\n${link}\n`,
+    });
+
+    account.verificationSentAt = new Date();
+    await account.save();
+}
+
+export {
+    OutboxTransport,
+    setMailTransport,
+    sendMail,
+    buildAppLink,
+    sendVerificationEmail,
+};
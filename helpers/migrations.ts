@@ -0,0 +1,241 @@
+import { randomBytes } from "crypto";
+import { hash } from "bcrypt";
+
+import AccountModel from "../models/AccountModel";
+import CounterModel from "../models/CounterModel";
+import RoleModel from "../models/RoleModel";
+import EmployeeModel from "../models/EmployeeModels";
+import SellModel from "../models/SellModel";
+import RevokedTokenModel from "../models/RevokedTokenModel";
+import { SellStatus } from "../types/sell";
+import { Permission, RoleDefinitions } from "../types/role";
+
+const LegacyEmployeeFields = [
+    "name",
+    "email",
+    "password",
+    "role",
+    "isActive",
+    "isVerified",
+    "isFirstTime",
+];
+
+// bcrypt hashes as written by hash(), anything else was stored as typed
+const BcryptHash = /^\$2[abxy]?\$\d{2}\$[./A-Za-z0-9]{53}$/;
+
+/**
+ * Employees used to carry their own email, password and role, which nothing
+ * could log in with. Move those onto an account (reusing the one with the same
+ * email if any, whose role is then kept) and link it, so the account is the
+ * only identity left. Passwords that were stored in clear are hashed and have
+ * to be changed on the next login. Rows that cannot be linked, say because
+ * another employee already has that account, are logged and left as they are
+ * so the server still starts.
+ */
+async function linkLegacyEmployees(): Promise<number> {
+    const legacy = await EmployeeModel.collection
+        .find({ account: { $exists: false } })
+        .toArray();
+
+    let linked = 0;
+    for (const employee of legacy) {
+        try {
+            let account = await AccountModel.findOne({
+                email: employee.email,
+            });
+            if (!account) {
+                // without any password nobody may log in until a reset
+                const password = employee.password
+                    ? String(employee.password)
+                    : randomBytes(32).toString("hex");
+                const hashed = BcryptHash.test(password);
+                account = await AccountModel.create({
+                    email: employee.email,
+                    password: hashed ? password : await hash(password, 10),
+                    name: employee.name,
+                    role: employee.role,
+                    isActive: employee.isActive,
+                    isVerified: employee.isVerified,
+                    isFirstTime: employee.isFirstTime || !hashed,
+                });
+            } else if (account.role !== employee.role) {
+                // the account role was set on purpose, the employee copy may
+                // be stale, so it wins and the difference is left to an admin
+                console.log(
+                    `[server]: Kept role ${account.role} of account ${account.email}, its employee record said ${employee.role}`
+                );
+            }
+
+            if (await EmployeeModel.exists({ account: account._id })) {
+                console.log(
+                    `[server]: Skipped legacy employee ${employee._id}, account ${account.email} already belongs to another employee`
+                );
+                continue;
+            }
+
+            const unset: Record<string, ""> = {};
+            LegacyEmployeeFields.forEach((field) => (unset[field] = ""));
+            await EmployeeModel.collection.updateOne(
+                { _id: employee._id },
+                { $set: { account: account._id }, $unset: unset }
+            );
+            linked++;
+        } catch (err) {
+            console.log(
+                `[server]: Skipped legacy employee ${employee._id}, ${err}`
+            );
+        }
+    }
+
+    return linked;
+}
+
+// Permissions given to built-in roles after they were first released, oldest
+// first. Only ever append to this list.
+const AddedRolePermissions = [Permission.APPROVE_REFUNDS];
+
+/**
+ * seedRoles never touches roles already in the database, so built-in roles
+ * seeded before a permission was added to their definition never get it.
+ * Add the new ones to the system roles whose definition has them. A counter
+ * remembers how many were added, so a permission an admin later takes away
+ * stays away.
+ */
+async function addNewRolePermissions(): Promise<number> {
+    const counter = await CounterModel.findOne({
+        name: "role-permissions",
+    }).exec();
+    const pending = AddedRolePermissions.slice(counter?.value ?? 0);
+
+    let modified = 0;
+    for (const permission of pending) {
+        const roles = Object.keys(RoleDefinitions).filter((name) =>
+            RoleDefinitions[name].permissions.includes(permission)
+        );
+        const result = await RoleModel.updateMany(
+            { name: { $in: roles }, isSystem: true },
+            { $addToSet: { permissions: permission } }
+        );
+        modified += result.modifiedCount;
+    }
+
+    await CounterModel.updateOne(
+        { name: "role-permissions" },
+        { $set: { value: AddedRolePermissions.length } },
+        { upsert: true }
+    );
+    return modified;
+}
+
+/**
+ * Sales recorded before orders had a status were only ever written once the
+ * customer had paid, so mark them paid. Their history stays empty since nobody
+ * knows who handled them.
+ */
+async function markLegacySalesPaid(): Promise<number> {
+    const result = await SellModel.collection.updateMany(
+        { status: { $exists: false } },
+        { $set: { status: SellStatus.Paid, statusHistory: [] } }
+    );
+    return result.modifiedCount;
+}
+
+/**
+ * Totals used to be computed on creation and dropped since the schema did not
+ * declare them. Recompute them from the lines; the voucher discount those sales
+ * got was never stored, so it is left out.
+ */
+async function backfillSellTotals(): Promise<number> {
+    const result = await SellModel.collection.updateMany(
+        { finalValue: { $exists: false } },
+        [
+            {
+                $set: {
+                    subtotal: {
+                        $round: [
+                            {
+                                $sum: {
+                                    $map: {
+                                        input: "$values",
+                                        as: "line",
+                                        in: {
+                                            $multiply: [
+                                                "$$line.price",
+                                                "$$line.quant",
+                                            ],
+                                        },
+                                    },
+                                },
+                            },
+                            2,
+                        ],
+                    },
+                    discount: 0,
+                },
+            },
+            { $set: { finalValue: "$subtotal" } },
+        ]
+    );
+    return result.modifiedCount;
+}
+
+/**
+ * Sales paid before payments were recorded have no payments and nothing in
+ * amountPaid, which leaves them with nothing to refund. They were paid in
+ * full, so count their final value as paid.
+ */
+async function backfillAmountPaid(): Promise<number> {
+    const result = await SellModel.collection.updateMany(
+        {
+            status: SellStatus.Paid,
+            $or: [{ amountPaid: { $exists: false } }, { amountPaid: 0 }],
+            "payments.0": { $exists: false },
+        },
+        [{ $set: { amountPaid: "$finalValue" } }]
+    );
+    return result.modifiedCount;
+}
+
+/**
+ * The jti of revoked tokens used to have a plain index. Mongoose does not
+ * replace an index whose options changed under the same name, so databases
+ * from before never get the unique one consumeActionToken relies on. Drop the
+ * plain index and the repeated entries it let in, then create the unique one.
+ * Returns whether the index was replaced.
+ */
+async function uniqueRevokedTokenJti(): Promise<boolean> {
+    // the collection does not exist yet on a new database
+    const indexes = await RevokedTokenModel.collection
+        .indexes()
+        .catch(() => []);
+    const plain = indexes.find((index) => index.name === "jti_1");
+    if (!plain || plain.unique) {
+        return false;
+    }
+
+    await RevokedTokenModel.collection.dropIndex("jti_1");
+
+    const repeated = await RevokedTokenModel.aggregate([
+        { $match: { jti: { $exists: true } } },
+        { $group: { _id: "$jti", ids: { $push: "$_id" } } },
+        { $match: { "ids.1": { $exists: true } } },
+    ]);
+    for (const { ids } of repeated) {
+        await RevokedTokenModel.deleteMany({ _id: { $in: ids.slice(1) } });
+    }
+
+    await RevokedTokenModel.collection.createIndex(
+        { jti: 1 },
+        { unique: true, sparse: true }
+    );
+    return true;
+}
+
+export {
+    addNewRolePermissions,
+    uniqueRevokedTokenJti,
+    linkLegacyEmployees,
+    markLegacySalesPaid,
+    backfillSellTotals,
+    backfillAmountPaid,
+};
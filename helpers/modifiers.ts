@@ -0,0 +1,154 @@
+import { HydratedDocument, Types, isValidObjectId } from "mongoose";
+
+import {
+    IModifierGroup,
+    ModifierSelection,
+} from "../models/ModifierGroupModel";
+import { ISellModifier } from "../models/SellModel";
+import BaseError from "../types/error";
+
+interface ModifierGroupInput {
+    name: string;
+    selection: ModifierSelection;
+    min: number;
+    max: number;
+    required: boolean;
+    options: {
+        _id?: string;
+        name: string;
+        priceDelta: number;
+        isAvailable: boolean;
+    }[];
+}
+
+function isCount(value: unknown): value is number {
+    return Number.isInteger(value) && (value as number) >= 0;
+}
+
+/**
+ * Check a modifier group sent by a client and fill the defaults. A required
+ * group needs at least one choice, and a single select group at most one.
+ */
+function parseModifierGroup(body: Record<string, unknown>): ModifierGroupInput {
+    const { name, selection, required = false, options } = body;
+
+    if (typeof name !== "string" || !name.trim()) {
+        throw new BaseError("name is required", 400);
+    }
+    if (selection !== "single" && selection !== "multi") {
+        throw new BaseError("selection must be single or multi", 400);
+    }
+    if (!Array.isArray(options) || options.length === 0) {
+        throw new BaseError("options must be a non-empty array", 400);
+    }
+
+    const parsedOptions = (options as unknown[]).map((raw) => {
+        const option = (raw ?? {}) as Record<string, unknown>;
+        if (typeof option.name !== "string" || !option.name.trim()) {
+            throw new BaseError("Every option needs a name", 400);
+        }
+        const priceDelta = option.priceDelta ?? 0;
+        if (typeof priceDelta !== "number" || !isFinite(priceDelta)) {
+            throw new BaseError("priceDelta must be a number", 400);
+        }
+        return {
+            ...(option._id ? { _id: String(option._id) } : {}),
+            name: option.name,
+            priceDelta,
+            isAvailable: Boolean(option.isAvailable ?? true),
+        };
+    });
+
+    const min = body.min ?? (required ? 1 : 0);
+    const max = body.max ?? (selection === "single" ? 1 : parsedOptions.length);
+    if (!isCount(min) || !isCount(max) || max < 1) {
+        throw new BaseError(
+            "min and max must be whole numbers, max at least 1",
+            400
+        );
+    }
+    if (min > max) {
+        throw new BaseError("min cannot be greater than max", 400);
+    }
+    if (selection === "single" && max !== 1) {
+        throw new BaseError("A single select group allows one choice", 400);
+    }
+    if (required && min < 1) {
+        throw new BaseError("A required group needs min of at least 1", 400);
+    }
+
+    return {
+        name,
+        selection,
+        min,
+        max,
+        required: !!required,
+        options: parsedOptions,
+    };
+}
+
+/**
+ * Resolve the option ids chosen for one sale line against the groups of its
+ * menu item. Options of multi select groups can be repeated, each repetition
+ * counting as a choice. Returns the chosen options and the problems found.
+ */
+function selectModifiers(
+    groups: HydratedDocument<IModifierGroup>[],
+    chosen: unknown
+): { modifiers: ISellModifier[]; errors: string[] } {
+    const modifiers: ISellModifier[] = [];
+    const errors: string[] = [];
+
+    if (chosen !== undefined && !Array.isArray(chosen)) {
+        return {
+            modifiers,
+            errors: ["modifiers must be an array of option ids"],
+        };
+    }
+
+    for (const id of (chosen as unknown[]) ?? []) {
+        if (!isValidObjectId(id)) {
+            errors.push(`Option ${id} is not offered on this item`);
+            continue;
+        }
+        const group = groups.find((group) =>
+            group.options.some((option) => option._id.equals(id as string))
+        );
+        const option = group?.options.find((option) =>
+            option._id.equals(id as string)
+        );
+        if (!group || !option) {
+            errors.push(`Option ${id} is not offered on this item`);
+            continue;
+        }
+        if (!option.isAvailable) {
+            errors.push(`${option.name} is not available`);
+            continue;
+        }
+        modifiers.push({
+            group: group._id,
+            groupName: group.name,
+            option: option._id,
+            name: option.name,
+            priceDelta: option.priceDelta,
+        });
+    }
+
+    for (const group of groups) {
+        const count = modifiers.filter((modifier) =>
+            modifier.group.equals(group._id)
+        ).length;
+        const min = Math.max(group.min, group.required ? 1 : 0);
+
+        if (count < min) {
+            errors.push(`Choose at least ${min} from ${group.name}`);
+        } else if (count > group.max) {
+            errors.push(`Choose at most ${group.max} from ${group.name}`);
+        }
+    }
+
+    return { modifiers, errors };
+}
+
+export type { ModifierGroupInput };
+export { parseModifierGroup, selectModifiers };
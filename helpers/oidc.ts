@@ -0,0 +1,335 @@
+import {
+    createHash,
+    createPublicKey,
+    randomBytes,
+    timingSafeEqual,
+    JsonWebKey,
+    KeyObject,
+} from "crypto";
+import jwt from "jsonwebtoken";
+
+import OidcStateModel from "../models/OidcStateModel";
+import BaseError from "../types/error";
+import { Role } from "../types/role";
+import { getRoleDefinition } from "./roles";
+
+const OIDC_STATE_TTL = 10 * 60 * 1000; // 10 minutes, in ms
+const OIDC_METADATA_TTL = 60 * 60 * 1000; // 1 hour, in ms
+
+const OidcNotConfigured = new BaseError("OIDC login is not configured", 404);
+const OidcStateNotValid = new BaseError(
+    "Login request expired or unknown",
+    400
+);
+const OidcLoginFailed = new BaseError(
+    "Could not sign in with the identity provider",
+    401
+);
+
+interface OidcConfig {
+    issuer: string;
+    clientId: string;
+    clientSecret: string;
+    redirectUri: string;
+    scopes: string;
+    groupsClaim: string;
+    // IdP group -> role, in priority order
+    roleMap: [string, string][];
+    defaultRole?: string;
+}
+
+interface OidcMetadata {
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+    userinfo_endpoint?: string;
+}
+
+interface IdpJwk extends JsonWebKey {
+    kid?: string;
+    use?: string;
+}
+
+interface IdpTokens {
+    id_token?: string;
+    access_token?: string;
+}
+
+interface OidcIdentity {
+    subject: string;
+    email: string;
+    emailVerified: boolean;
+    name: string;
+    groups: string[];
+}
+
+let metadata: { value: OidcMetadata; loadedAt: number } | null = null;
+let jwks: Record<string, KeyObject> = {};
+
+/**
+ * Read the IdP settings from the environment, or null when OIDC_ISSUER is not
+ * set. OIDC_ROLE_MAP lists `group=Role` pairs separated by commas, the first
+ * group the user belongs to decides the role so list the most privileged
+ * first. Users in none of them get OIDC_DEFAULT_ROLE, or cannot sign in.
+ */
+function getOidcConfig(): OidcConfig | null {
+    const issuer = process.env.OIDC_ISSUER;
+    if (!issuer) {
+        return null;
+    }
+
+    const { OIDC_CLIENT_ID, OIDC_CLIENT_SECRET, OIDC_REDIRECT_URI } =
+        process.env;
+    if (!OIDC_CLIENT_ID || !OIDC_CLIENT_SECRET || !OIDC_REDIRECT_URI) {
+        throw new Error(
+            "OIDC_CLIENT_ID, OIDC_CLIENT_SECRET and OIDC_REDIRECT_URI must be defined"
+        );
+    }
+
+    const roleMap = (process.env.OIDC_ROLE_MAP || "")
+        .split(",")
+        .map((entry) => entry.split("=").map((part) => part.trim()))
+        .filter((entry): entry is [string, string] => {
+            return entry.length === 2 && !!entry[0] && !!entry[1];
+        });
+
+    return {
+        issuer,
+        clientId: OIDC_CLIENT_ID,
+        clientSecret: OIDC_CLIENT_SECRET,
+        redirectUri: OIDC_REDIRECT_URI,
+        scopes: process.env.OIDC_SCOPES || "openid email profile",
+        groupsClaim: process.env.OIDC_GROUPS_CLAIM || "groups",
+        roleMap,
+        defaultRole: process.env.OIDC_DEFAULT_ROLE || undefined,
+    };
+}
+
+function requireOidcConfig(): OidcConfig {
+    const config = getOidcConfig();
+    if (!config) {
+        throw OidcNotConfigured;
+    }
+    return config;
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+        throw new Error(`${url} answered ${response.status}`);
+    }
+    return (await response.json()) as T;
+}
+
+async function getMetadata(config: OidcConfig): Promise<OidcMetadata> {
+    if (metadata && Date.now() - metadata.loadedAt < OIDC_METADATA_TTL) {
+        return metadata.value;
+    }
+
+    const value = await fetchJson<OidcMetadata>(
+        `${config.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`
+    );
+    metadata = { value, loadedAt: Date.now() };
+    jwks = {};
+    return value;
+}
+
+// IdP signing keys by kid, refetched when a token names a key we do not know.
+async function getIdpKey(
+    config: OidcConfig,
+    kid: string
+): Promise<KeyObject | undefined> {
+    if (!jwks[kid]) {
+        const { jwks_uri } = await getMetadata(config);
+        const { keys } = await fetchJson<{ keys: IdpJwk[] }>(jwks_uri);
+        jwks = {};
+        keys.forEach((jwk) => {
+            if (jwk.kid && (!jwk.use || jwk.use === "sig")) {
+                jwks[jwk.kid] = createPublicKey({ key: jwk, format: "jwk" });
+            }
+        });
+    }
+    return jwks[kid];
+}
+
+function base64UrlSha256(value: string): string {
+    return createHash("sha256").update(value).digest("base64url");
+}
+
+/**
+ * Start an authorization-code login with PKCE. The returned URL sends the
+ * browser to the IdP, which comes back to OIDC_REDIRECT_URI with a code and
+ * the state. The state also has to be kept in the browser (a cookie) and
+ * handed back to completeAuthorization, so a code obtained in another browser
+ * cannot be used to log this one in. With `linkAccount`, the login links the
+ * IdP identity to that account instead.
+ */
+async function createAuthorizationUrl(
+    linkAccount?: string
+): Promise<{ url: string; state: string }> {
+    const config = requireOidcConfig();
+    const { authorization_endpoint } = await getMetadata(config);
+
+    const state = randomBytes(16).toString("base64url");
+    const nonce = randomBytes(16).toString("base64url");
+    const codeVerifier = randomBytes(32).toString("base64url");
+
+    await OidcStateModel.create({
+        state,
+        nonce,
+        codeVerifier,
+        linkAccount,
+        expiresAt: new Date(Date.now() + OIDC_STATE_TTL),
+    });
+
+    const url = new URL(authorization_endpoint);
+    url.search = new URLSearchParams({
+        response_type: "code",
+        client_id: config.clientId,
+        redirect_uri: config.redirectUri,
+        scope: config.scopes,
+        state,
+        nonce,
+        code_challenge: base64UrlSha256(codeVerifier),
+        code_challenge_method: "S256",
+    }).toString();
+    return { url: url.toString(), state };
+}
+
+function sameState(state: string, browserState: string): boolean {
+    const a = Buffer.from(state);
+    const b = Buffer.from(browserState);
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Exchange the code of the callback for tokens and return the verified
+ * identity, along with the account to link when the login was started for
+ * that. The state is single-use and must match the one kept by the browser,
+ * the ID token must be signed by the IdP, issued for our client and carry the
+ * nonce of the request.
+ */
+async function completeAuthorization(
+    code: string,
+    state: string,
+    browserState: string | undefined
+): Promise<{ identity: OidcIdentity; linkAccount?: string }> {
+    const config = requireOidcConfig();
+
+    if (!browserState || !sameState(state, browserState)) {
+        throw OidcStateNotValid;
+    }
+
+    const pending = await OidcStateModel.findOneAndDelete({ state }).exec();
+    if (!pending || pending.expiresAt.getTime() < Date.now()) {
+        throw OidcStateNotValid;
+    }
+
+    const { token_endpoint, userinfo_endpoint } = await getMetadata(config);
+    let tokens: IdpTokens;
+    try {
+        tokens = await fetchJson<IdpTokens>(token_endpoint, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/x-www-form-urlencoded",
+                Authorization:
+                    "Basic " +
+                    Buffer.from(
+                        `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`
+                    ).toString("base64"),
+            },
+            body: new URLSearchParams({
+                grant_type: "authorization_code",
+                code,
+                redirect_uri: config.redirectUri,
+                code_verifier: pending.codeVerifier,
+            }).toString(),
+        });
+    } catch {
+        throw OidcLoginFailed;
+    }
+
+    const decoded = tokens.id_token
+        ? jwt.decode(tokens.id_token, { complete: true })
+        : null;
+    const key = decoded?.header.kid
+        ? await getIdpKey(config, decoded.header.kid)
+        : undefined;
+    if (!key) {
+        throw OidcLoginFailed;
+    }
+
+    let claims: jwt.JwtPayload;
+    try {
+        claims = jwt.verify(tokens.id_token!, key, {
+            algorithms: ["RS256", "ES256"],
+            issuer: config.issuer,
+            audience: config.clientId,
+        }) as jwt.JwtPayload;
+    } catch (err) {
+        throw OidcLoginFailed;
+    }
+
+    if (claims.nonce !== pending.nonce || !claims.sub) {
+        throw OidcLoginFailed;
+    }
+
+    // some IdPs only put the groups in the userinfo response
+    if (
+        claims[config.groupsClaim] === undefined &&
+        userinfo_endpoint &&
+        tokens.access_token
+    ) {
+        const userinfo = await fetchJson<jwt.JwtPayload>(userinfo_endpoint, {
+            headers: { Authorization: `Bearer ${tokens.access_token}` },
+        });
+        if (userinfo.sub === claims.sub) {
+            claims = { ...userinfo, ...claims };
+        }
+    }
+
+    if (!claims.email) {
+        throw OidcLoginFailed;
+    }
+
+    const groups = claims[config.groupsClaim];
+    return {
+        identity: {
+            subject: claims.sub,
+            email: String(claims.email),
+            emailVerified: claims.email_verified === true,
+            name: claims.name || claims.preferred_username || claims.email,
+            groups: Array.isArray(groups) ? groups.map(String) : [],
+        },
+        linkAccount: pending.linkAccount?.toString(),
+    };
+}
+
+// Admin is only ever given locally, never through IdP groups.
+function isMappableRole(role: string): boolean {
+    return role !== Role.Admin && !!getRoleDefinition(role);
+}
+
+// Role for an IdP user, or undefined when none of their groups is mapped.
+function mapGroupsToRole(groups: string[]): string | undefined {
+    const config = requireOidcConfig();
+    const match = config.roleMap.find(
+        ([group, role]) => groups.includes(group) && isMappableRole(role)
+    );
+
+    if (match) {
+        return match[1];
+    }
+
+    if (config.defaultRole && isMappableRole(config.defaultRole)) {
+        return config.defaultRole;
+    }
+}
+
+export type { OidcIdentity };
+export {
+    getOidcConfig,
+    createAuthorizationUrl,
+    completeAuthorization,
+    mapGroupsToRole,
+};
@@ -0,0 +1,23 @@
+import PermissionOverrideModel from "../models/PermissionOverrideModel";
+import { PermissionOverride } from "../types/role";
+import { isOverrideActive } from "./auth";
+
+// Active permission overrides of an account, expired ones are left out even
+// before mongo gets around to removing them.
+async function loadPermissionOverrides(
+    accountId: string
+): Promise<PermissionOverride[]> {
+    const overrides = await PermissionOverrideModel.find({
+        account: accountId,
+    }).lean();
+
+    return overrides
+        .map((override) => ({
+            permission: override.permission,
+            effect: override.effect,
+            expiresAt: override.expiresAt,
+        }))
+        .filter(isOverrideActive);
+}
+
+export { loadPermissionOverrides };
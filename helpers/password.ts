@@ -0,0 +1,177 @@
+import { readFileSync } from "fs";
+import { compare, hash } from "bcrypt";
+import { HydratedDocument } from "mongoose";
+
+import { IAccount } from "../models/AccountModel";
+import BaseError from "../types/error";
+
+// bcrypt ignores everything after 72 bytes
+const PASSWORD_MAX_LENGTH = 72;
+
+interface PasswordPolicy {
+    minLength: number;
+    requireLowercase: boolean;
+    requireUppercase: boolean;
+    requireDigit: boolean;
+    requireSymbol: boolean;
+    historySize: number;
+    breachedListPath?: string;
+}
+
+interface PasswordViolation {
+    rule: string;
+    message: string;
+}
+
+let breachedList: { path: string; passwords: Set<string> } | null = null;
+
+function readFlag(name: string, fallback: boolean): boolean {
+    const value = process.env[name];
+    return value === undefined ? fallback : value === "true";
+}
+
+function readNumber(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] || "", 10);
+    return isNaN(value) ? fallback : value;
+}
+
+/**
+ * Policy from the environment: PASSWORD_MIN_LENGTH, PASSWORD_REQUIRE_LOWERCASE,
+ * PASSWORD_REQUIRE_UPPERCASE, PASSWORD_REQUIRE_DIGIT, PASSWORD_REQUIRE_SYMBOL,
+ * PASSWORD_HISTORY (previous passwords that cannot be reused) and
+ * PASSWORD_BREACHED_LIST (file with one known breached password per line).
+ */
+function getPasswordPolicy(): PasswordPolicy {
+    return {
+        minLength: readNumber("PASSWORD_MIN_LENGTH", 8),
+        requireLowercase: readFlag("PASSWORD_REQUIRE_LOWERCASE", true),
+        requireUppercase: readFlag("PASSWORD_REQUIRE_UPPERCASE", true),
+        requireDigit: readFlag("PASSWORD_REQUIRE_DIGIT", true),
+        requireSymbol: readFlag("PASSWORD_REQUIRE_SYMBOL", false),
+        historySize: readNumber("PASSWORD_HISTORY", 5),
+        breachedListPath: process.env.PASSWORD_BREACHED_LIST || undefined,
+    };
+}
+
+// Read once per path, compared case-insensitively.
+function getBreachedPasswords(path: string): Set<string> {
+    if (breachedList?.path !== path) {
+        const passwords = new Set(
+            readFileSync(path, "utf8")
+                .split(/\r?\n/)
+                .map((line) => line.trim().toLowerCase())
+                .filter(Boolean)
+        );
+        breachedList = { path, passwords };
+    }
+    return breachedList.passwords;
+}
+
+function checkPasswordRules(
+    password: string,
+    policy: PasswordPolicy
+): PasswordViolation[] {
+    const violations: PasswordViolation[] = [];
+    const fail = (rule: string, message: string) =>
+        violations.push({ rule, message });
+
+    if (password.length < policy.minLength) {
+        fail(
+            "minLength",
+            `Password must be at least ${policy.minLength} characters`
+        );
+    }
+    if (Buffer.byteLength(password) > PASSWORD_MAX_LENGTH) {
+        fail(
+            "maxLength",
+            `Password must be at most ${PASSWORD_MAX_LENGTH} bytes`
+        );
+    }
+    if (policy.requireLowercase && !/[a-z]/.test(password)) {
+        fail("lowercase", "Password must contain a lowercase letter");
+    }
+    if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+        fail("uppercase", "Password must contain an uppercase letter");
+    }
+    if (policy.requireDigit && !/[0-9]/.test(password)) {
+        fail("digit", "Password must contain a digit");
+    }
+    if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+        fail("symbol", "Password must contain a symbol");
+    }
+    if (
+        policy.breachedListPath &&
+        getBreachedPasswords(policy.breachedListPath).has(
+            password.toLowerCase()
+        )
+    ) {
+        fail("breached", "Password appears in a list of breached passwords");
+    }
+
+    return violations;
+}
+
+/**
+ * Check a new password against the policy, and against the current and
+ * previous passwords when it is for an existing account. Throws a 400 listing
+ * every broken rule.
+ */
+async function validatePassword(
+    password: unknown,
+    account?: HydratedDocument<IAccount>
+): Promise<void> {
+    const policy = getPasswordPolicy();
+
+    if (typeof password !== "string" || !password) {
+        throw new BaseError("Password does not meet the policy", 400, [
+            { rule: "required", message: "Password is required" },
+        ]);
+    }
+
+    const violations = checkPasswordRules(password, policy);
+
+    if (account && violations.length === 0 && policy.historySize > 0) {
+        const recent = [account.password, ...account.passwordHistory]
+            .filter((hashed): hashed is string => !!hashed)
+            .slice(0, policy.historySize);
+        for (const hashed of recent) {
+            if (await compare(password, hashed)) {
+                violations.push({
+                    rule: "reused",
+                    message: `Password must differ from your last ${policy.historySize} passwords`,
+                });
+                break;
+            }
+        }
+    }
+
+    if (violations.length > 0) {
+        throw new BaseError(
+            "Password does not meet the policy",
+            400,
+            violations
+        );
+    }
+}
+
+/**
+ * Hash and set a password that already went through validatePassword,
+ * moving the current hash into the history. The account is not saved.
+ */
+async function setAccountPassword(
+    account: HydratedDocument<IAccount>,
+    password: string
+): Promise<void> {
+    const { historySize } = getPasswordPolicy();
+
+    if (account.password) {
+        account.passwordHistory = [
+            account.password,
+            ...account.passwordHistory,
+        ].slice(0, Math.max(historySize - 1, 0));
+    }
+    account.password = await hash(password, 10);
+}
+
+export type { PasswordPolicy, PasswordViolation };
+export { getPasswordPolicy, validatePassword, setAccountPassword };
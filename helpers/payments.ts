@@ -0,0 +1,204 @@
+import { HydratedDocument, Types, isValidObjectId } from "mongoose";
+
+import CustomerModel from "../models/CustomerModel";
+import VoucherModel, { IVoucher } from "../models/VoucherModels";
+import { ISellPayment } from "../models/SellModel";
+import BaseError from "../types/error";
+import { PaymentMethod, isValidPaymentMethod } from "../types/sell";
+import { roundMoney } from "./sell";
+
+type PaymentDraft = Omit<ISellPayment, "_id">;
+
+const MethodNotValid = new BaseError(
+    `method must be one of ${Object.values(PaymentMethod).join(", ")}`,
+    400
+);
+const AmountNotValid = new BaseError(
+    "amount must be a positive number no greater than the amount due",
+    400
+);
+const TenderedNotValid = new BaseError(
+    "tendered must be a positive number",
+    400
+);
+const VoucherNotFound = new BaseError("Voucher not found", 400);
+const VoucherExpired = new BaseError("Voucher has expired", 400);
+const VoucherRedeemed = new BaseError("Voucher was already used", 409);
+const CustomerNotFound = new BaseError("Customer not found", 400);
+const CreditTooLow = new BaseError("Not enough store credit", 400);
+
+/**
+ * Mark a voucher as used by a sale, in one step so it cannot be used twice.
+ * Expired and already used vouchers are refused. Returns the voucher and
+ * `release`, which makes it usable again.
+ */
+async function redeemVoucher(
+    voucher: unknown,
+    sellId: string
+): Promise<{
+    voucher: HydratedDocument<IVoucher>;
+    release: () => Promise<void>;
+}> {
+    if (!isValidObjectId(voucher)) {
+        throw VoucherNotFound;
+    }
+    const voucherDoc = await VoucherModel.findById(voucher).exec();
+    if (!voucherDoc) {
+        throw VoucherNotFound;
+    }
+    if (voucherDoc.exipryDate.getTime() <= Date.now()) {
+        throw VoucherExpired;
+    }
+
+    const redeemed = await VoucherModel.findOneAndUpdate(
+        { _id: voucherDoc._id, redeemedAt: { $exists: false } },
+        { $set: { redeemedAt: new Date(), redeemedBy: sellId } }
+    ).exec();
+    if (!redeemed) {
+        throw VoucherRedeemed;
+    }
+
+    return {
+        voucher: voucherDoc,
+        release: async () => {
+            await VoucherModel.updateOne(
+                { _id: voucherDoc._id, redeemedBy: sellId },
+                { $unset: { redeemedAt: "", redeemedBy: "" } }
+            );
+        },
+    };
+}
+
+function readAmount(amount: unknown, due: number): number {
+    if (typeof amount !== "number" || !isFinite(amount)) {
+        throw AmountNotValid;
+    }
+    const rounded = roundMoney(amount);
+    if (rounded <= 0 || rounded > due) {
+        throw AmountNotValid;
+    }
+    return rounded;
+}
+
+/**
+ * Work out what a payment puts towards the `due` amount of a sale, and take
+ * what it draws on: a voucher is marked as redeemed by the sale and store
+ * credit is removed from the customer balance. Cash may exceed the amount due,
+ * the difference is the change; other methods may not. A voucher pays at most
+ * the amount due, whatever is left on it is lost.
+ *
+ * Returns the payment to record and `release`, which gives the voucher or the
+ * credit back when the payment could not be recorded after all.
+ */
+async function preparePayment(
+    body: Record<string, unknown>,
+    due: number,
+    sellId: string,
+    receivedBy: string
+): Promise<{ payment: PaymentDraft; release: () => Promise<void> }> {
+    const { method, amount, tendered, payer, reference, voucher, customer } =
+        body;
+
+    if (typeof method !== "string" || !isValidPaymentMethod(method)) {
+        throw MethodNotValid;
+    }
+
+    const payment: PaymentDraft = {
+        method,
+        amount: 0,
+        payer: typeof payer === "string" ? payer : undefined,
+        receivedAt: new Date(),
+        receivedBy: new Types.ObjectId(receivedBy),
+    };
+    let release = async () => {};
+
+    switch (method) {
+        case PaymentMethod.Cash: {
+            if (
+                typeof tendered !== "number" ||
+                !isFinite(tendered) ||
+                tendered <= 0
+            ) {
+                throw TenderedNotValid;
+            }
+            payment.tendered = roundMoney(tendered);
+            payment.amount = Math.min(payment.tendered, due);
+            payment.change = roundMoney(payment.tendered - payment.amount);
+            break;
+        }
+        case PaymentMethod.Card:
+        case PaymentMethod.EWallet: {
+            payment.amount = readAmount(amount, due);
+            payment.reference =
+                typeof reference === "string" ? reference : undefined;
+            break;
+        }
+        case PaymentMethod.Voucher: {
+            const redeemed = await redeemVoucher(voucher, sellId);
+            payment.voucher = redeemed.voucher._id;
+            payment.amount = roundMoney(Math.min(redeemed.voucher.value, due));
+            release = redeemed.release;
+            break;
+        }
+        case PaymentMethod.StoreCredit: {
+            const value = readAmount(amount, due);
+            if (
+                !isValidObjectId(customer) ||
+                !(await CustomerModel.exists({ _id: customer }))
+            ) {
+                throw CustomerNotFound;
+            }
+
+            const debited = await CustomerModel.findOneAndUpdate(
+                { _id: customer, storeCredit: { $gte: value } },
+                [
+                    {
+                        $set: {
+                            storeCredit: {
+                                $round: [
+                                    { $subtract: ["$storeCredit", value] },
+                                    2,
+                                ],
+                            },
+                        },
+                    },
+                ]
+            ).exec();
+            if (!debited) {
+                throw CreditTooLow;
+            }
+
+            payment.customer = debited._id;
+            payment.amount = value;
+            release = async () => {
+                await CustomerModel.updateOne({ _id: customer }, [
+                    {
+                        $set: {
+                            storeCredit: {
+                                $round: [{ $add: ["$storeCredit", value] }, 2],
+                            },
+                        },
+                    },
+                ]);
+            };
+            break;
+        }
+    }
+
+    return { payment, release };
+}
+
+// Split an amount into `ways` shares differing by at most a cent
+function splitAmount(amount: number, ways: number): number[] {
+    const cents = Math.round(amount * 100);
+    const base = Math.floor(cents / ways);
+    const remainder = cents - base * ways;
+
+    return Array.from(
+        { length: ways },
+        (_, index) => (base + (index < remainder ? 1 : 0)) / 100
+    );
+}
+
+export type { PaymentDraft };
+export { redeemVoucher, preparePayment, splitAmount };
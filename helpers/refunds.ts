@@ -0,0 +1,549 @@
+import { HydratedDocument, Types, isValidObjectId } from "mongoose";
+
+import SellModel, { ISell, ISellItem } from "../models/SellModel";
+import CreditNoteModel, {
+    CreditNoteKind,
+    ICreditNote,
+    ICreditNoteLine,
+} from "../models/CreditNoteModel";
+import CounterModel from "../models/CounterModel";
+import CustomerModel from "../models/CustomerModel";
+import VoucherModel from "../models/VoucherModels";
+import BaseError from "../types/error";
+import { Permission } from "../types/role";
+import {
+    CreditNoteStatus,
+    PaymentMethod,
+    RefundMethod,
+    RefundReason,
+    SellStatus,
+    canTransition,
+    isValidRefundReason,
+} from "../types/sell";
+import { hasPermission } from "./auth";
+import { readEnvNumber } from "./general";
+import { loadPermissionOverrides } from "./overrides";
+import { roundMoney } from "./sell";
+
+// What a route fills in to issue a credit note, see issueCreditNote
+interface CreditNoteDraft {
+    sell: Types.ObjectId;
+    kind: CreditNoteKind;
+    reason: RefundReason;
+    note?: string;
+    amount: number;
+    tax: number;
+    lines: ICreditNoteLine[];
+    method: RefundMethod;
+    customer?: string;
+    requestedBy: string;
+}
+
+interface RefundPlan {
+    amount: number;
+    tax: number;
+    lines: ICreditNoteLine[];
+    method: RefundMethod;
+    customer?: string;
+}
+
+const ReasonNotValid = new BaseError(
+    `reason must be one of ${Object.values(RefundReason).join(", ")}`,
+    400
+);
+const NoteRequired = new BaseError("A note is required for reason other", 400);
+const NothingToRefund = new BaseError("Nothing left to refund", 409);
+const AmountNotValid = new BaseError(
+    "amount must be a positive number no greater than what is left to refund",
+    400
+);
+const MethodNotValid = new BaseError(
+    "method must be one of cash, card, e-wallet, store-credit",
+    400
+);
+const CustomerNotFound = new BaseError("Customer not found", 400);
+const CustomerNotOnSale = new BaseError(
+    "Store credit can only go to the customer of the sale",
+    400
+);
+const SellChanged = new BaseError(
+    "The sale changed in the meantime, reload it and try again",
+    409
+);
+const CannotVoid = new BaseError(
+    "Only sales that are not paid or cancelled can be voided",
+    409
+);
+const SellNotFound = new BaseError("Sale not found", 404);
+const PaidMeanwhile = new BaseError(
+    "More was paid on the sale since the void was requested",
+    409
+);
+
+// Refunds strictly above REFUND_APPROVAL_THRESHOLD need approval
+function getRefundApprovalThreshold(): number {
+    return readEnvNumber("REFUND_APPROVAL_THRESHOLD", 50);
+}
+
+// CN-000001, CN-000002, ... without gaps or repeats
+async function nextCreditNoteNumber(): Promise<string> {
+    const counter = await CounterModel.findOneAndUpdate(
+        { name: "credit-note" },
+        { $inc: { value: 1 } },
+        { upsert: true, new: true }
+    ).exec();
+    return `CN-${String(counter.value).padStart(6, "0")}`;
+}
+
+function readReason(body: Record<string, unknown>): {
+    reason: RefundReason;
+    note?: string;
+} {
+    const { reason, note } = body;
+    if (typeof reason !== "string" || !isValidRefundReason(reason)) {
+        throw ReasonNotValid;
+    }
+    if (
+        reason === RefundReason.Other &&
+        (typeof note !== "string" || !note.trim())
+    ) {
+        throw NoteRequired;
+    }
+    return { reason, note: typeof note === "string" ? note : undefined };
+}
+
+// What the customer paid for one unit of a line, discount and tax included
+function unitPaid(line: ISellItem): number {
+    const paid =
+        line.net !== undefined
+            ? line.net + (line.tax ?? 0)
+            : (line.total ?? line.price * line.quant);
+    return paid / line.quant;
+}
+
+// Refunds as store credit only go to the customer of the sale: one who paid it
+// with store credit, or the one with the phone number it was made for.
+async function isSellCustomer(
+    sell: HydratedDocument<ISell>,
+    customer: string
+): Promise<boolean> {
+    const paidWithCredit = sell.payments.some(
+        (payment) =>
+            payment.method === PaymentMethod.StoreCredit &&
+            payment.customer?.equals(customer)
+    );
+    if (paidWithCredit) {
+        return true;
+    }
+
+    const byPhone = await CustomerModel.exists({
+        _id: customer,
+        phoneNumber: sell.phoneNumber,
+    });
+    return byPhone !== null;
+}
+
+/**
+ * Work out a refund of a paid sale from the request: either given lines
+ * (`{ line, quant }`, line being the index in the sale values), a plain
+ * `amount`, or when neither is sent everything not refunded yet. Refunded
+ * lines only cover what the customer paid for them, not the service charge.
+ * The part of the amount that was tax follows the tax share of the sale.
+ */
+async function planRefund(
+    sell: HydratedDocument<ISell>,
+    body: Record<string, unknown>
+): Promise<RefundPlan> {
+    const refundable = roundMoney(sell.amountPaid - sell.refundedAmount);
+    if (refundable <= 0) {
+        throw NothingToRefund;
+    }
+
+    const { lines, amount, method, customer } = body;
+    const refundLines: ICreditNoteLine[] = [];
+    let total: number;
+
+    if (lines !== undefined) {
+        if (!Array.isArray(lines) || lines.length === 0) {
+            throw new BaseError(
+                "lines must be a non-empty array of { line, quant }",
+                400
+            );
+        }
+        // the same line sent twice counts once, with both quantities
+        const quants = new Map<number, number>();
+        for (const raw of lines as unknown[]) {
+            const { line, quant } = (raw ?? {}) as Record<string, unknown>;
+            if (
+                typeof line !== "number" ||
+                !Number.isInteger(line) ||
+                !sell.values[line]
+            ) {
+                throw new BaseError(`Line ${line} not found`, 400);
+            }
+            if (
+                typeof quant !== "number" ||
+                !Number.isInteger(quant) ||
+                quant < 1
+            ) {
+                throw new BaseError(
+                    `Line ${line} quant must be a positive whole number`,
+                    400
+                );
+            }
+            quants.set(line, (quants.get(line) ?? 0) + quant);
+        }
+
+        for (const [line, quant] of Array.from(quants)) {
+            const sellLine = sell.values[line];
+            const left = sellLine.quant - (sellLine.refundedQuant ?? 0);
+            if (quant > left) {
+                throw new BaseError(
+                    `Line ${line} has ${left} left to refund`,
+                    400
+                );
+            }
+            refundLines.push({
+                line,
+                name: sellLine.name,
+                quant,
+                amount: roundMoney(unitPaid(sellLine) * quant),
+            });
+        }
+        total = Math.min(
+            roundMoney(refundLines.reduce((acc, line) => acc + line.amount, 0)),
+            refundable
+        );
+    } else if (amount !== undefined) {
+        if (typeof amount !== "number" || !isFinite(amount)) {
+            throw AmountNotValid;
+        }
+        total = roundMoney(amount);
+        if (total <= 0 || total > refundable) {
+            throw AmountNotValid;
+        }
+    } else {
+        sell.values.forEach((sellLine, line) => {
+            const quant = sellLine.quant - (sellLine.refundedQuant ?? 0);
+            if (quant > 0) {
+                refundLines.push({
+                    line,
+                    name: sellLine.name,
+                    quant,
+                    amount: roundMoney(unitPaid(sellLine) * quant),
+                });
+            }
+        });
+        total = refundable;
+    }
+
+    if (
+        typeof method !== "string" ||
+        method === RefundMethod.Original ||
+        !Object.values(RefundMethod).includes(method as RefundMethod)
+    ) {
+        throw MethodNotValid;
+    }
+    if (method === RefundMethod.StoreCredit) {
+        if (
+            !isValidObjectId(customer) ||
+            !(await CustomerModel.exists({ _id: customer }))
+        ) {
+            throw CustomerNotFound;
+        }
+        if (!(await isSellCustomer(sell, String(customer)))) {
+            throw CustomerNotOnSale;
+        }
+    }
+
+    return {
+        amount: total,
+        tax:
+            sell.finalValue > 0
+                ? roundMoney((total * sell.taxTotal) / sell.finalValue)
+                : 0,
+        lines: refundLines,
+        method: method as RefundMethod,
+        customer:
+            method === RefundMethod.StoreCredit ? String(customer) : undefined,
+    };
+}
+
+async function creditCustomer(customer: unknown, amount: number) {
+    await CustomerModel.updateOne({ _id: customer }, [
+        {
+            $set: {
+                storeCredit: {
+                    $round: [{ $add: ["$storeCredit", amount] }, 2],
+                },
+            },
+        },
+    ]);
+}
+
+/**
+ * Give the money of an approved refund back: count it as refunded on the sale,
+ * along with the refunded quantities, then credit the customer when refunded
+ * as store credit. Throws when the sale no longer has that much to refund.
+ */
+async function applyRefund(
+    creditNote: HydratedDocument<ICreditNote>
+): Promise<void> {
+    const sell = await SellModel.findById(creditNote.sell).exec();
+    if (!sell) {
+        throw SellNotFound;
+    }
+
+    const refundable = roundMoney(sell.amountPaid - sell.refundedAmount);
+    const quants = new Map<number, number>();
+    creditNote.lines.forEach(({ line, quant }) =>
+        quants.set(line, (quants.get(line) ?? 0) + quant)
+    );
+    const linesLeft = Array.from(quants).every(
+        ([line, quant]) =>
+            sell.values[line] &&
+            quant <=
+                sell.values[line].quant - (sell.values[line].refundedQuant ?? 0)
+    );
+    if (creditNote.amount > refundable || !linesLeft) {
+        throw NothingToRefund;
+    }
+
+    const refundedQuants: Record<string, number> = {};
+    quants.forEach((quant, line) => {
+        refundedQuants[`values.${line}.refundedQuant`] =
+            (sell.values[line].refundedQuant ?? 0) + quant;
+    });
+
+    // only applies if no other refund got in first
+    const updated = await SellModel.findOneAndUpdate(
+        { _id: sell._id, refundedAmount: sell.refundedAmount },
+        {
+            $set: {
+                refundedAmount: roundMoney(
+                    sell.refundedAmount + creditNote.amount
+                ),
+                ...refundedQuants,
+            },
+        }
+    ).exec();
+    if (!updated) {
+        throw SellChanged;
+    }
+
+    if (creditNote.method === RefundMethod.StoreCredit) {
+        await creditCustomer(creditNote.customer, creditNote.amount);
+    }
+}
+
+// Cancel a sale and hand back what was paid on it, as long as it can still be
+// cancelled and nothing more was paid since `amountPaid` was read. The reason
+// is kept on the history entry of the cancellation.
+async function cancelSell(
+    sell: HydratedDocument<ISell>,
+    amountPaid: number,
+    by: unknown,
+    why: { reason: RefundReason; note?: string }
+): Promise<void> {
+    const from = sell.status;
+    if (!canTransition(from, SellStatus.Cancelled)) {
+        throw CannotVoid;
+    }
+
+    const updated = await SellModel.findOneAndUpdate(
+        { _id: sell._id, status: from, amountPaid },
+        {
+            $set: {
+                status: SellStatus.Cancelled,
+                refundedAmount: amountPaid,
+            },
+            $push: {
+                statusHistory: {
+                    from,
+                    to: SellStatus.Cancelled,
+                    at: new Date(),
+                    by,
+                    reason: why.reason,
+                    note: why.note,
+                },
+            },
+        }
+    ).exec();
+    if (!updated) {
+        throw SellChanged;
+    }
+
+    // the voucher taken off the order can be used again
+    if (sell.voucher) {
+        await VoucherModel.updateOne(
+            { _id: sell.voucher, redeemedBy: sell._id },
+            { $unset: { redeemedAt: "", redeemedBy: "" } }
+        );
+    }
+
+    for (const payment of sell.payments) {
+        if (payment.method === PaymentMethod.Voucher) {
+            await VoucherModel.updateOne(
+                { _id: payment.voucher, redeemedBy: sell._id },
+                { $unset: { redeemedAt: "", redeemedBy: "" } }
+            );
+        } else if (payment.method === PaymentMethod.StoreCredit) {
+            await creditCustomer(payment.customer, payment.amount);
+        }
+    }
+}
+
+// Void an approved void credit note: cancel its sale, which hands back what
+// was paid. Throws when the sale was paid, cancelled or paid more meanwhile.
+async function applyVoid(
+    creditNote: HydratedDocument<ICreditNote>
+): Promise<void> {
+    const sell = await SellModel.findById(creditNote.sell).exec();
+    if (!sell) {
+        throw SellNotFound;
+    }
+    if (sell.amountPaid !== creditNote.amount) {
+        throw PaidMeanwhile;
+    }
+
+    await cancelSell(sell, creditNote.amount, creditNote.requestedBy, {
+        reason: creditNote.reason,
+        note: creditNote.note,
+    });
+}
+
+// Whether applying a credit note failed for good, as opposed to losing a race
+// with another change of the sale, which a retry may get past.
+function canNeverApply(err: unknown): boolean {
+    return [NothingToRefund, CannotVoid, SellNotFound, PaidMeanwhile].includes(
+        err as BaseError
+    );
+}
+
+// Carry out an approved credit note, whatever its kind.
+function applyCreditNote(
+    creditNote: HydratedDocument<ICreditNote>
+): Promise<void> {
+    return creditNote.kind === "void"
+        ? applyVoid(creditNote)
+        : applyRefund(creditNote);
+}
+
+/**
+ * Whether money going back on a sale has to wait for approval: when what was
+ * already returned on the sale, plus what waits for approval, plus `amount`
+ * goes above the threshold, so splitting a refund in small ones does not get
+ * around it. Holders of approve_refunds never wait.
+ */
+async function needsRefundApproval(
+    sell: HydratedDocument<ISell>,
+    amount: number,
+    user: { id: string; role: string }
+): Promise<boolean> {
+    const overrides = await loadPermissionOverrides(user.id);
+    if (hasPermission(user.role, Permission.APPROVE_REFUNDS, overrides)) {
+        return false;
+    }
+
+    const [pending] = await CreditNoteModel.aggregate([
+        { $match: { sell: sell._id, status: CreditNoteStatus.Pending } },
+        { $group: { _id: null, amount: { $sum: "$amount" } } },
+    ]);
+    const total = roundMoney(
+        sell.refundedAmount + (pending?.amount ?? 0) + amount
+    );
+    return total > getRefundApprovalThreshold();
+}
+
+/**
+ * Number and save a credit note before any money moves, so nothing is ever
+ * given back without a record. One that needs approval is left pending, see
+ * /credit-note/approve; the others are approved by their requester and applied
+ * at once, and marked rejected when that fails.
+ */
+async function issueCreditNote(
+    draft: CreditNoteDraft,
+    needsApproval: boolean
+): Promise<HydratedDocument<ICreditNote>> {
+    const creditNote = await CreditNoteModel.create({
+        ...draft,
+        number: await nextCreditNoteNumber(),
+        status: needsApproval
+            ? CreditNoteStatus.Pending
+            : CreditNoteStatus.Approved,
+        requestedAt: new Date(),
+        ...(!needsApproval && {
+            reviewedBy: draft.requestedBy,
+            reviewedAt: new Date(),
+        }),
+    });
+    if (needsApproval) {
+        return creditNote;
+    }
+
+    try {
+        await applyCreditNote(creditNote);
+    } catch (err) {
+        creditNote.status = CreditNoteStatus.Rejected;
+        creditNote.reviewNote = `Could not be applied: ${(err as Error).message}`;
+        await creditNote.save();
+        throw err;
+    }
+    return creditNote;
+}
+
+/**
+ * Cancel a sale that is not paid yet. Any payment already taken is handed
+ * back: vouchers can be used again, store credit returns to the customer, and
+ * cash, card and e-wallet payments are listed on a credit note for the staff
+ * to return. Like refunds, voids returning money above the threshold wait for
+ * approval, the sale stays as it is until then. Returns the credit note, or
+ * null when nothing was paid and the sale was cancelled right away.
+ */
+async function voidSell(
+    sell: HydratedDocument<ISell>,
+    body: Record<string, unknown>,
+    user: { id: string; role: string }
+): Promise<HydratedDocument<ICreditNote> | null> {
+    const { reason, note } = readReason(body);
+    if (!canTransition(sell.status, SellStatus.Cancelled)) {
+        throw CannotVoid;
+    }
+
+    if (sell.amountPaid <= 0) {
+        await cancelSell(sell, 0, user.id, { reason, note });
+        return null;
+    }
+
+    return issueCreditNote(
+        {
+            sell: sell._id,
+            kind: "void",
+            reason,
+            note,
+            amount: sell.amountPaid,
+            tax:
+                sell.finalValue > 0
+                    ? roundMoney(
+                          (sell.amountPaid * sell.taxTotal) / sell.finalValue
+                      )
+                    : 0,
+            lines: [],
+            method: RefundMethod.Original,
+            requestedBy: user.id,
+        },
+        await needsRefundApproval(sell, sell.amountPaid, user)
+    );
+}
+
+export type { RefundPlan, CreditNoteDraft };
+export {
+    getRefundApprovalThreshold,
+    readReason,
+    planRefund,
+    needsRefundApproval,
+    issueCreditNote,
+    applyCreditNote,
+    canNeverApply,
+    voidSell,
+};
@@ -0,0 +1,178 @@
+import RoleModel from "../models/RoleModel";
+import {
+    Permission,
+    RoleDefinition,
+    RoleDefinitions,
+    getAllPermissions,
+} from "../types/role";
+
+const ROLE_CACHE_TTL = 60 * 1000; // 1 minute, in ms
+
+// Starts from the built-in definitions so permission checks keep working
+// until the first load from the database.
+let roleCache: Record<string, RoleDefinition> = { ...RoleDefinitions };
+let loadedAt = 0;
+let loading: Promise<void> | null = null;
+
+// Insert the built-in roles that are missing, never overwrite edited ones.
+async function seedRoles(): Promise<void> {
+    await Promise.all(
+        Object.keys(RoleDefinitions).map((name) => {
+            const definition = RoleDefinitions[name];
+            return RoleModel.updateOne(
+                { name },
+                {
+                    $setOnInsert: {
+                        name,
+                        isManager: definition.isManager,
+                        extendFrom: definition.extendFrom ?? [],
+                        permissions: definition.permissions,
+                        isSystem: true,
+                    },
+                },
+                { upsert: true }
+            );
+        })
+    );
+}
+
+async function loadRoles(): Promise<void> {
+    const roles = await RoleModel.find().lean();
+    const cache: Record<string, RoleDefinition> = {};
+    roles.forEach((role) => {
+        cache[role.name] = {
+            isManager: role.isManager,
+            extendFrom: role.extendFrom,
+            permissions: role.permissions,
+        };
+    });
+
+    roleCache = cache;
+    loadedAt = Date.now();
+}
+
+/**
+ * Reload the roles when the cache is older than its TTL, so changes made
+ * through another instance are picked up. Concurrent callers share one load.
+ */
+function ensureRolesLoaded(): Promise<void> {
+    if (Date.now() - loadedAt < ROLE_CACHE_TTL) {
+        return Promise.resolve();
+    }
+
+    if (!loading) {
+        loading = loadRoles().finally(() => {
+            loading = null;
+        });
+    }
+    return loading;
+}
+
+function getRoleDefinition(name: string): RoleDefinition | undefined {
+    return Object.prototype.hasOwnProperty.call(roleCache, name)
+        ? roleCache[name]
+        : undefined;
+}
+
+function getRoleNames(): string[] {
+    return Object.keys(roleCache);
+}
+
+function getRolePermissions(name: string): Permission[] {
+    return getAllPermissions(name, roleCache);
+}
+
+// Every role reachable through extendFrom, nearest first, without duplicates.
+function getInheritedRoles(name: string): string[] {
+    const inherited: string[] = [];
+    const queue = [...(roleCache[name]?.extendFrom ?? [])];
+
+    while (queue.length > 0) {
+        const role = queue.shift()!;
+        if (role === name || inherited.includes(role)) {
+            continue;
+        }
+        inherited.push(role);
+        queue.push(...(roleCache[role]?.extendFrom ?? []));
+    }
+
+    return inherited;
+}
+
+/**
+ * Find the extendFrom chain through which `name` gets `permission`, starting
+ * with `name` itself and ending with the role that lists the permission.
+ * Returns null when no role in the hierarchy has it.
+ */
+function findPermissionSource(
+    name: string,
+    permission: Permission
+): string[] | null {
+    const walk = (role: string, path: string[]): string[] | null => {
+        const definition = roleCache[role];
+        if (!definition || path.includes(role)) {
+            return null;
+        }
+
+        if (definition.permissions.includes(permission)) {
+            return [...path, role];
+        }
+
+        for (const parent of definition.extendFrom ?? []) {
+            const chain = walk(parent, [...path, role]);
+            if (chain) {
+                return chain;
+            }
+        }
+        return null;
+    };
+
+    return walk(name, []);
+}
+
+/**
+ * Check whether giving `name` the parents `extendFrom` would close an
+ * inheritance loop. Returns the offending chain (first and last entries are
+ * the same role) or null.
+ */
+function findInheritanceCycle(
+    name: string,
+    extendFrom: string[]
+): string[] | null {
+    const definitions: Record<string, RoleDefinition> = {
+        ...roleCache,
+        [name]: {
+            ...(roleCache[name] ?? { isManager: false, permissions: [] }),
+            extendFrom,
+        },
+    };
+
+    const walk = (role: string, path: string[]): string[] | null => {
+        if (path.includes(role)) {
+            return [...path.slice(path.indexOf(role)), role];
+        }
+
+        const parents = definitions[role]?.extendFrom ?? [];
+        for (const parent of parents) {
+            const cycle = walk(parent, [...path, role]);
+            if (cycle) {
+                return cycle;
+            }
+        }
+        return null;
+    };
+
+    return walk(name, []);
+}
+
+export {
+    seedRoles,
+    loadRoles,
+    ensureRolesLoaded,
+    getRoleDefinition,
+    getRoleNames,
+    getRolePermissions,
+    getInheritedRoles,
+    findPermissionSource,
+    findInheritanceCycle,
+};
@@ -0,0 +1,224 @@
+import { HydratedDocument, isValidObjectId } from "mongoose";
+
+import MenuItemModel from "../models/MenuModels";
+import { IModifierGroup } from "../models/ModifierGroupModel";
+import { ISellItem, ISellTax } from "../models/SellModel";
+import BaseError from "../types/error";
+import { selectModifiers } from "./modifiers";
+import { SellPricing } from "./tax";
+
+interface SellLineError {
+    line: number;
+    message: string;
+}
+
+interface SellTotals {
+    subtotal: number;
+    discount: number;
+    pricesIncludeTax: boolean;
+    serviceChargeRate: number;
+    serviceCharge: number;
+    taxTotal: number;
+    taxes: ISellTax[];
+    finalValue: number;
+}
+
+const ValuesNotValid = new BaseError(
+    "values must be a non-empty array of { menuItem, quant, modifiers }",
+    400
+);
+
+// Amounts are kept in the currency unit, rounded to cents
+function roundMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Turn the lines sent by the client, `{ menuItem, quant, modifiers }` where
+ * modifiers are option ids, into sale lines priced from the menu. Prices sent
+ * by the client are ignored. Throws a 400 listing every line referring to a
+ * missing or unavailable item, with an invalid quantity or with modifiers the
+ * item's groups do not allow.
+ */
+async function buildSellLines(values: unknown): Promise<ISellItem[]> {
+    if (!Array.isArray(values) || values.length === 0) {
+        throw ValuesNotValid;
+    }
+
+    const ids = values
+        .map((value) => value?.menuItem)
+        .filter((id) => isValidObjectId(id));
+    const menuItems = await MenuItemModel.find({ _id: { $in: ids } })
+        .populate<{
+            modifierGroups: HydratedDocument<IModifierGroup>[];
+        }>("modifierGroups")
+        .exec();
+
+    const errors: SellLineError[] = [];
+    const lines: ISellItem[] = [];
+
+    values.forEach((value, line) => {
+        const menuItem = isValidObjectId(value?.menuItem)
+            ? menuItems.find((item) => item._id.equals(value.menuItem))
+            : undefined;
+
+        if (!menuItem) {
+            errors.push({ line, message: "Menu item not found" });
+            return;
+        }
+        if (!menuItem.isAvailable) {
+            errors.push({
+                line,
+                message: `${menuItem.name} is not available`,
+            });
+            return;
+        }
+        if (!Number.isInteger(value.quant) || value.quant < 1) {
+            errors.push({
+                line,
+                message: "Quantity must be a positive whole number",
+            });
+            return;
+        }
+
+        const { modifiers, errors: modifierErrors } = selectModifiers(
+            menuItem.modifierGroups,
+            value.modifiers
+        );
+        if (modifierErrors.length > 0) {
+            modifierErrors.forEach((message) => errors.push({ line, message }));
+            return;
+        }
+
+        // options can take money off, never below a free item
+        const unitPrice = Math.max(
+            0,
+            modifiers.reduce(
+                (acc, modifier) => acc + modifier.priceDelta,
+                menuItem.price
+            )
+        );
+        lines.push({
+            menuItem: menuItem._id,
+            name: menuItem.name,
+            price: menuItem.price,
+            quant: value.quant,
+            unit: menuItem.unit,
+            category: menuItem.type,
+            modifiers,
+            total: roundMoney(unitPrice * value.quant),
+            refundedQuant: 0,
+        });
+    });
+
+    if (errors.length > 0) {
+        throw new BaseError("Some sale lines are not valid", 400, errors);
+    }
+
+    return lines;
+}
+
+// Spread the order discount over the lines in proportion to their amount,
+// the last line taking the rounding remainder.
+function allocateDiscount(amounts: number[], discount: number): number[] {
+    const total = amounts.reduce((acc, amount) => acc + amount, 0);
+    let remaining = discount;
+
+    return amounts.map((amount, index) => {
+        const share =
+            index === amounts.length - 1
+                ? remaining
+                : total > 0
+                  ? roundMoney((discount * amount) / total)
+                  : 0;
+        remaining = roundMoney(remaining - share);
+        return share;
+    });
+}
+
+/**
+ * Price a sale: spread the discount over the lines, work out the tax of each
+ * line from its category, then add the service charge (on the amount without
+ * tax) and its own tax. Fills the tax breakdown of every line. A discount
+ * never takes the total below zero.
+ */
+function computeSellTotals(
+    lines: ISellItem[],
+    discount: number,
+    pricing: SellPricing
+): SellTotals {
+    const amounts = lines.map((line) =>
+        roundMoney(line.total ?? line.price * line.quant)
+    );
+    const subtotal = roundMoney(
+        amounts.reduce((acc, amount) => acc + amount, 0)
+    );
+    const applied = roundMoney(Math.min(Math.max(discount, 0), subtotal));
+    const shares = allocateDiscount(amounts, applied);
+
+    const taxes: ISellTax[] = [];
+    const addTax = (name: string, rate: number, net: number, tax: number) => {
+        const entry = taxes.find(
+            (entry) => entry.name === name && entry.rate === rate
+        );
+        if (entry) {
+            entry.net = roundMoney(entry.net + net);
+            entry.tax = roundMoney(entry.tax + tax);
+        } else {
+            taxes.push({ name, rate, net, tax });
+        }
+    };
+
+    let netTotal = 0;
+    lines.forEach((line, index) => {
+        const amount = roundMoney(amounts[index] - shares[index]);
+        const rule = pricing.rules[line.category] ?? {
+            name: "Default",
+            rate: 0,
+        };
+        const net = pricing.pricesIncludeTax
+            ? roundMoney(amount / (1 + rule.rate / 100))
+            : amount;
+        const tax = pricing.pricesIncludeTax
+            ? roundMoney(amount - net)
+            : roundMoney((amount * rule.rate) / 100);
+
+        line.discount = shares[index];
+        line.taxName = rule.name;
+        line.taxRate = rule.rate;
+        line.net = net;
+        line.tax = tax;
+        addTax(rule.name, rule.rate, net, tax);
+
+        netTotal += net;
+    });
+
+    const serviceCharge = roundMoney(
+        (netTotal * pricing.serviceChargeRate) / 100
+    );
+    if (serviceCharge > 0 && pricing.serviceChargeTaxRate > 0) {
+        addTax(
+            "Service charge",
+            pricing.serviceChargeTaxRate,
+            serviceCharge,
+            roundMoney((serviceCharge * pricing.serviceChargeTaxRate) / 100)
+        );
+    }
+    const taxTotal = roundMoney(
+        taxes.reduce((acc, entry) => acc + entry.tax, 0)
+    );
+
+    return {
+        subtotal,
+        discount: applied,
+        pricesIncludeTax: pricing.pricesIncludeTax,
+        serviceChargeRate: pricing.serviceChargeRate,
+        serviceCharge,
+        taxTotal,
+        taxes,
+        finalValue: roundMoney(netTotal + serviceCharge + taxTotal),
+    };
+}
+
+export type { SellLineError, SellTotals };
+export { roundMoney, buildSellLines, computeSellTotals };
@@ -0,0 +1,133 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+    S3Client,
+    GetObjectCommand,
+    PutObjectCommand,
+    DeleteObjectCommand,
+    NoSuchKey,
+} from "@aws-sdk/client-s3";
+
+import { StorageDriver } from "../types/storage";
+
+const ContentTypes: Record<string, string> = {
+    ".webp": "image/webp",
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+};
+
+// Files under STORAGE_DIR (default ./uploads), for development and single
+// server setups.
+function createLocalStorage(root: string): StorageDriver {
+    const resolve = (key: string) => {
+        const file = path.resolve(root, key);
+        if (!file.startsWith(path.resolve(root) + path.sep)) {
+            throw new Error(`Invalid storage key ${key}`);
+        }
+        return file;
+    };
+
+    return {
+        put: async (key, data) => {
+            const file = resolve(key);
+            await fs.mkdir(path.dirname(file), { recursive: true });
+            await fs.writeFile(file, data);
+        },
+        get: async (key) => {
+            try {
+                const data = await fs.readFile(resolve(key));
+                const contentType =
+                    ContentTypes[path.extname(key)] ||
+                    "application/octet-stream";
+                return { data, contentType };
+            } catch (err: any) {
+                if (err.code === "ENOENT") {
+                    return null;
+                }
+                throw err;
+            }
+        },
+        remove: async (key) => {
+            await fs.rm(resolve(key), { force: true });
+        },
+    };
+}
+
+/**
+ * Any S3-compatible bucket. S3_ENDPOINT and S3_FORCE_PATH_STYLE point it at
+ * MinIO or another provider, credentials come from S3_ACCESS_KEY_ID and
+ * S3_SECRET_ACCESS_KEY or the usual AWS environment.
+ */
+function createS3Storage(bucket: string): StorageDriver {
+    const client = new S3Client({
+        region: process.env.S3_REGION || "us-east-1",
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+        credentials: process.env.S3_ACCESS_KEY_ID
+            ? {
+                  accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                  secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+              }
+            : undefined,
+    });
+
+    return {
+        put: async (key, data, contentType) => {
+            await client.send(
+                new PutObjectCommand({
+                    Bucket: bucket,
+                    Key: key,
+                    Body: data,
+                    ContentType: contentType,
+                })
+            );
+        },
+        get: async (key) => {
+            try {
+                const object = await client.send(
+                    new GetObjectCommand({ Bucket: bucket, Key: key })
+                );
+                const bytes = await object.Body!.transformToByteArray();
+                return {
+                    data: Buffer.from(bytes),
+                    contentType:
+                        object.ContentType || "application/octet-stream",
+                };
+            } catch (err) {
+                if (err instanceof NoSuchKey) {
+                    return null;
+                }
+                throw err;
+            }
+        },
+        remove: async (key) => {
+            await client.send(
+                new DeleteObjectCommand({ Bucket: bucket, Key: key })
+            );
+        },
+    };
+}
+
+let storage: StorageDriver | null = null;
+
+function setStorageDriver(driver: StorageDriver) {
+    storage = driver;
+}
+
+// STORAGE_DRIVER picks the backend, "local" (default) or "s3".
+function getStorage(): StorageDriver {
+    if (!storage) {
+        if (process.env.STORAGE_DRIVER === "s3") {
+            const bucket = process.env.S3_BUCKET;
+            if (!bucket) {
+                throw new Error("S3_BUCKET is not defined");
+            }
+            storage = createS3Storage(bucket);
+        } else {
+            storage = createLocalStorage(process.env.STORAGE_DIR || "uploads");
+        }
+    }
+    return storage;
+}
+
+export { createLocalStorage, createS3Storage, setStorageDriver, getStorage };
@@ -0,0 +1,68 @@
+import TaxRateModel from "../models/TaxRateModel";
+import { OrderType } from "../types/sell";
+import { readEnvFlag, readEnvNumber } from "./general";
+
+interface TaxRule {
+    name: string;
+    rate: number; // percent
+}
+
+interface TaxSettings {
+    pricesIncludeTax: boolean;
+    defaultRate: number;
+    serviceChargeRate: number;
+    serviceChargeTaxRate: number;
+}
+
+// Everything needed to price one sale, rates are percents
+interface SellPricing {
+    rules: Record<string, TaxRule>;
+    pricesIncludeTax: boolean;
+    serviceChargeRate: number;
+    serviceChargeTaxRate: number;
+}
+
+/**
+ * Settings from the environment: PRICES_INCLUDE_TAX (menu prices already
+ * contain the tax, the default), TAX_DEFAULT_RATE for categories without a
+ * rate, SERVICE_CHARGE_RATE charged on dine-in orders and
+ * SERVICE_CHARGE_TAX_RATE applied on top of the service charge.
+ */
+function getTaxSettings(): TaxSettings {
+    return {
+        pricesIncludeTax: readEnvFlag("PRICES_INCLUDE_TAX", true),
+        defaultRate: readEnvNumber("TAX_DEFAULT_RATE", 0),
+        serviceChargeRate: readEnvNumber("SERVICE_CHARGE_RATE", 0),
+        serviceChargeTaxRate: readEnvNumber("SERVICE_CHARGE_TAX_RATE", 0),
+    };
+}
+
+// Rates in force for the given menu categories and type of order
+async function loadSellPricing(
+    categories: string[],
+    orderType: OrderType
+): Promise<SellPricing> {
+    const settings = getTaxSettings();
+    const rates = await TaxRateModel.find({
+        category: { $in: categories },
+    }).exec();
+
+    const rules: Record<string, TaxRule> = {};
+    categories.forEach((category) => {
+        const rate = rates.find((rate) => rate.category === category);
+        rules[category] = rate
+            ? { name: rate.name, rate: rate.rate }
+            : { name: "Default", rate: settings.defaultRate };
+    });
+
+    return {
+        rules,
+        pricesIncludeTax: settings.pricesIncludeTax,
+        serviceChargeRate:
+            orderType === OrderType.DineIn ? settings.serviceChargeRate : 0,
+        serviceChargeTaxRate: settings.serviceChargeTaxRate,
+    };
+}
+
+export type { TaxRule, TaxSettings, SellPricing };
+export { getTaxSettings, loadSellPricing };
@@ -0,0 +1,331 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import jwt from "jsonwebtoken";
+
+import RefreshTokenModel from "../models/RefreshTokenModel";
+import RevokedTokenModel from "../models/RevokedTokenModel";
+import SessionModel from "../models/SessionModel";
+import BaseError from "../types/error";
+import { JwtPayload, ActionTokenPayload } from "../types/jwt";
+import {
+    SIGNING_ALGORITHM,
+    ensureSigningKeys,
+    getSigningKey,
+    getVerificationKey,
+} from "./keys";
+
+const ACCESS_TOKEN_TTL = 15 * 60; // 15 minutes, in seconds
+const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days, in ms
+
+// Where a session is used from, recorded at login and on every refresh.
+interface SessionInfo {
+    userAgent?: string;
+    ip?: string;
+}
+
+const InvalidToken = new BaseError("Invalid token", 401);
+const TokenExpired = new BaseError("Token has expired", 401);
+const TokenRevoked = new BaseError("Token has been revoked", 401);
+
+// Sign with the current key, its kid goes in the header for verifiers.
+function signJwt(payload: object, options: jwt.SignOptions): string {
+    const key = getSigningKey();
+    return jwt.sign(payload, key.privateKey, {
+        ...options,
+        algorithm: SIGNING_ALGORITHM,
+        keyid: key.kid,
+    });
+}
+
+function verifyJwt(token: string): object {
+    const decoded = jwt.decode(token, { complete: true });
+    const key = decoded?.header.kid && getVerificationKey(decoded.header.kid);
+
+    if (!key) {
+        throw InvalidToken;
+    }
+
+    try {
+        return jwt.verify(token, key.publicKey, {
+            algorithms: [SIGNING_ALGORITHM],
+        }) as object;
+    } catch (err) {
+        if (err instanceof jwt.TokenExpiredError) {
+            throw TokenExpired;
+        }
+        throw InvalidToken;
+    }
+}
+
+function isDuplicateKeyError(err: unknown): boolean {
+    return (err as { code?: number } | null)?.code === 11000;
+}
+
+function hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+}
+
+function signAccessToken(
+    payload: JwtPayload,
+    options: { expiresIn?: number; jwtid?: string } = {}
+): string {
+    const {
+        id,
+        email,
+        name,
+        role,
+        sid,
+        restriction,
+        impersonator,
+        allowWrite,
+    } = payload;
+    return signJwt(
+        { id, email, name, role, sid, restriction, impersonator, allowWrite },
+        {
+            expiresIn: options.expiresIn ?? ACCESS_TOKEN_TTL,
+            jwtid: options.jwtid ?? randomUUID(),
+        }
+    );
+}
+
+async function isTokenRevoked(payload: JwtPayload): Promise<boolean> {
+    const conditions: object[] = [];
+    if (payload.jti) conditions.push({ jti: payload.jti });
+    if (payload.sid) conditions.push({ sid: payload.sid });
+
+    if (conditions.length === 0) {
+        return false;
+    }
+
+    const revoked = await RevokedTokenModel.exists({ $or: conditions });
+    return revoked !== null;
+}
+
+async function verifyAccessToken(token: string): Promise<JwtPayload> {
+    await ensureSigningKeys();
+    const payload = verifyJwt(token) as JwtPayload;
+
+    // action tokens share the signing key but must never act as a login
+    if ("purpose" in payload) {
+        throw InvalidToken;
+    }
+
+    if (await isTokenRevoked(payload)) {
+        throw TokenRevoked;
+    }
+
+    return payload;
+}
+
+/**
+ * Sign a short-lived token that is only good for one kind of action (email
+ * verification, password reset...). The purpose is checked on verify so a
+ * token minted for one flow cannot be replayed against another.
+ */
+function signActionToken(
+    purpose: string,
+    subject: string,
+    expiresIn: number
+): string {
+    return signJwt(
+        { purpose },
+        {
+            subject,
+            expiresIn,
+            jwtid: randomUUID(),
+        }
+    );
+}
+
+function verifyActionToken(token: string, purpose: string): ActionTokenPayload {
+    const payload = verifyJwt(token) as ActionTokenPayload;
+
+    if (payload.purpose !== purpose || !payload.sub) {
+        throw InvalidToken;
+    }
+
+    return payload;
+}
+
+/**
+ * Verify an action token and burn its jti so it cannot be presented again.
+ */
+async function consumeActionToken(
+    token: string,
+    purpose: string
+): Promise<ActionTokenPayload> {
+    await ensureSigningKeys();
+    const payload = verifyActionToken(token, purpose);
+
+    // a single insert: the unique jti index lets only one of two concurrent
+    // uses through
+    try {
+        await RevokedTokenModel.create({
+            jti: payload.jti,
+            expiresAt: new Date((payload.exp ?? 0) * 1000),
+        });
+    } catch (err) {
+        if (isDuplicateKeyError(err)) {
+            throw TokenRevoked;
+        }
+        throw err;
+    }
+
+    return payload;
+}
+
+async function issueRefreshToken(
+    accountId: string,
+    family: string = randomUUID()
+): Promise<{ refreshToken: string; family: string }> {
+    const refreshToken = randomBytes(48).toString("base64url");
+
+    await RefreshTokenModel.create({
+        account: accountId,
+        tokenHash: hashToken(refreshToken),
+        family,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL),
+    });
+
+    return { refreshToken, family };
+}
+
+// Open a session for a fresh login, its sid is the new refresh token family.
+async function startSession(
+    accountId: string,
+    info: SessionInfo
+): Promise<{ refreshToken: string; family: string }> {
+    const issued = await issueRefreshToken(accountId);
+
+    await SessionModel.create({
+        sid: issued.family,
+        account: accountId,
+        userAgent: info.userAgent,
+        ip: info.ip,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL),
+    });
+
+    return issued;
+}
+
+async function revokeSession(sid: string): Promise<void> {
+    await RefreshTokenModel.updateMany(
+        { family: sid, revokedAt: { $exists: false } },
+        { revokedAt: new Date() }
+    );
+    await SessionModel.updateOne(
+        { sid, revokedAt: { $exists: false } },
+        { revokedAt: new Date() }
+    );
+    await RevokedTokenModel.create({
+        sid,
+        expiresAt: new Date(Date.now() + ACCESS_TOKEN_TTL * 1000),
+    });
+}
+
+/**
+ * Exchange a refresh token for a new one in the same family. Presenting a
+ * token that was already rotated means it leaked, so the whole family is
+ * revoked and its holder has to log in again.
+ */
+async function rotateRefreshToken(
+    refreshToken: string,
+    info: SessionInfo = {}
+): Promise<{ accountId: string; refreshToken: string; family: string }> {
+    const tokenHash = hashToken(refreshToken);
+
+    // claim the token in one step, so of two concurrent refreshes with the
+    // same token only one gets through and the other counts as reuse
+    const stored = await RefreshTokenModel.findOneAndUpdate(
+        {
+            tokenHash,
+            revokedAt: { $exists: false },
+            expiresAt: { $gt: new Date() },
+        },
+        { $set: { revokedAt: new Date() } }
+    );
+
+    if (!stored) {
+        const existing = await RefreshTokenModel.findOne({ tokenHash });
+
+        if (!existing) {
+            throw InvalidToken;
+        }
+
+        if (existing.revokedAt) {
+            await revokeSession(existing.family);
+            throw TokenRevoked;
+        }
+
+        throw TokenExpired;
+    }
+
+    const accountId = stored.account.toString();
+    const next = await issueRefreshToken(accountId, stored.family);
+    await SessionModel.updateOne(
+        { sid: stored.family },
+        {
+            lastSeenAt: new Date(),
+            expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL),
+            ...(info.userAgent && { userAgent: info.userAgent }),
+            ...(info.ip && { ip: info.ip }),
+        }
+    );
+    return { accountId, ...next };
+}
+
+async function revokeRefreshToken(refreshToken: string): Promise<void> {
+    const stored = await RefreshTokenModel.findOne({
+        tokenHash: hashToken(refreshToken),
+    });
+
+    if (!stored) {
+        throw InvalidToken;
+    }
+
+    await revokeSession(stored.family);
+}
+
+async function revokeAccessToken(payload: JwtPayload): Promise<void> {
+    if (payload.sid) {
+        await revokeSession(payload.sid);
+        return;
+    }
+
+    await RevokedTokenModel.updateOne(
+        { jti: payload.jti },
+        { $setOnInsert: { expiresAt: new Date((payload.exp ?? 0) * 1000) } },
+        { upsert: true }
+    );
+}
+
+// Revoke every open session of the account, except `keepSid` when given.
+async function revokeAllSessions(
+    accountId: string,
+    keepSid?: string
+): Promise<number> {
+    const families: string[] = await RefreshTokenModel.distinct("family", {
+        account: accountId,
+        revokedAt: { $exists: false },
+        ...(keepSid && { family: { $ne: keepSid } }),
+    });
+
+    await Promise.all(families.map((family) => revokeSession(family)));
+    return families.length;
+}
+
+export type { SessionInfo };
+export {
+    ACCESS_TOKEN_TTL,
+    signAccessToken,
+    verifyAccessToken,
+    signActionToken,
+    verifyActionToken,
+    consumeActionToken,
+    issueRefreshToken,
+    startSession,
+    rotateRefreshToken,
+    revokeRefreshToken,
+    revokeAccessToken,
+    revokeSession,
+    revokeAllSessions,
+};
@@ -0,0 +1,139 @@
+import { createHash, createHmac, randomBytes } from "crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_PERIOD = 30; // seconds
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // accepted steps of clock drift on each side
+const RECOVERY_CODE_COUNT = 10;
+
+function base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = "";
+
+    for (let i = 0; i < buffer.length; i++) {
+        value = (value << 8) | buffer[i];
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+}
+
+function base32Decode(input: string): Buffer {
+    const clean = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (let i = 0; i < clean.length; i++) {
+        const index = BASE32_ALPHABET.indexOf(clean[i]);
+        if (index === -1) {
+            throw new Error("Invalid base32 character");
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(bytes);
+}
+
+function generateTotpSecret(): string {
+    return base32Encode(randomBytes(20));
+}
+
+// RFC 4226 HOTP value for a given counter, TOTP feeds it the time step.
+function generateHotp(secret: string, counter: number): string {
+    const buffer = Buffer.alloc(8);
+    buffer.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+    buffer.writeUInt32BE(counter % 0x100000000, 4);
+
+    const digest = createHmac("sha1", base32Decode(secret))
+        .update(buffer)
+        .digest();
+    const offset = digest[digest.length - 1] & 0xf;
+    const binary =
+        ((digest[offset] & 0x7f) << 24) |
+        (digest[offset + 1] << 16) |
+        (digest[offset + 2] << 8) |
+        digest[offset + 3];
+
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+function currentTotpStep(): number {
+    return Math.floor(Date.now() / 1000 / TOTP_PERIOD);
+}
+
+/**
+ * Check a TOTP code and return the time step it matched, or null. Steps at or
+ * before `lastUsedStep` are refused so an observed code cannot be replayed.
+ */
+function verifyTotp(
+    secret: string,
+    code: string,
+    lastUsedStep: number = -1
+): number | null {
+    if (!/^\d{6}$/.test(code)) {
+        return null;
+    }
+
+    const step = currentTotpStep();
+    for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+        const candidate = step + drift;
+        if (candidate <= lastUsedStep) {
+            continue;
+        }
+        if (generateHotp(secret, candidate) === code) {
+            return candidate;
+        }
+    }
+
+    return null;
+}
+
+function buildOtpauthUri(secret: string, accountName: string): string {
+    const issuer = process.env.TOTP_ISSUER || "Coffeeshop Manager";
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: "SHA1",
+        digits: TOTP_DIGITS.toString(),
+        period: TOTP_PERIOD.toString(),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+function hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "");
+    return createHash("sha256").update(normalized).digest("hex");
+}
+
+function generateRecoveryCodes(): string[] {
+    const codes: string[] = [];
+    for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+        const raw = randomBytes(5).toString("hex");
+        codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+    }
+    return codes;
+}
+
+export {
+    generateTotpSecret,
+    verifyTotp,
+    buildOtpauthUri,
+    generateRecoveryCodes,
+    hashRecoveryCode,
+};
@@ -10,10 +10,28 @@ import AuthRoutes from "./routes/AuthRoutes";
 import CustomerRoutes from "./routes/CustomerRoutes";
 import EmployeeRoutes from "./routes/EmployeeRoutes";
 import SellRoutes from "./routes/SellRoutes";
+import CreditNoteRoutes from "./routes/CreditNoteRoutes";
 import ProductRoutes from "./routes/ProductRoutes";
 import WarehouseRoutes from "./routes/WarehouseRoutes";
 import SupplierRoutes from "./routes/SupplierRoutes";
 import MenuRoutes from "./routes/MenuRoutes";
+import ModifierGroupRoutes from "./routes/ModifierGroupRoutes";
+import TaxRoutes from "./routes/TaxRoutes";
+import RoleRoutes from "./routes/RoleRoutes";
+import PermissionRoutes from "./routes/PermissionRoutes";
+import ApiKeyRoutes from "./routes/ApiKeyRoutes";
+import WellKnownRoutes from "./routes/WellKnownRoutes";
+import AvatarRoutes from "./routes/AvatarRoutes";
+import {
+    addNewRolePermissions,
+    uniqueRevokedTokenJti,
+    linkLegacyEmployees,
+    markLegacySalesPaid,
+    backfillSellTotals,
+    backfillAmountPaid,
+} from "./helpers/migrations";
+import { seedRoles, loadRoles } from "./helpers/roles";
+import { loadSigningKeys } from "./helpers/keys";
 
 dotenv.config();
 
@@ -41,6 +59,13 @@ const specs = swaggerJsdoc({
                     type: "http",
                     scheme: "bearer",
                     bearerFormat: "JWT",
+                    description:
+                        "ES256 tokens, verify them with the keys from /.well-known/jwks.json",
+                },
+                apiKeyAuth: {
+                    type: "apiKey",
+                    in: "header",
+                    name: "X-API-Key",
                 },
             },
         },
@@ -76,9 +101,17 @@ app.use("/customer", CustomerRoutes);
 app.use("/employee", EmployeeRoutes);
 app.use("/product", ProductRoutes);
 app.use("/sell", SellRoutes);
+app.use("/credit-note", CreditNoteRoutes);
 app.use("/warehouse", WarehouseRoutes);
 app.use("/supplier", SupplierRoutes);
 app.use("/menu", MenuRoutes);
+app.use("/modifier-group", ModifierGroupRoutes);
+app.use("/tax", TaxRoutes);
+app.use("/role", RoleRoutes);
+app.use("/permission", PermissionRoutes);
+app.use("/api-key", ApiKeyRoutes);
+app.use("/avatar", AvatarRoutes);
+app.use("/.well-known", WellKnownRoutes);
 
 console.log(
     `mongodb${
@@ -94,7 +127,52 @@ mongoose
             authSource: "admin",
         }
     )
-    .then(() => {
+    .then(() => seedRoles())
+    .then(() => addNewRolePermissions())
+    .then((added) => {
+        if (added > 0) {
+            console.log(
+                `[server]: Gave ${added} built-in roles their new permissions`
+            );
+        }
+        return loadRoles();
+    })
+    .then(() => loadSigningKeys())
+    .then(() => uniqueRevokedTokenJti())
+    .then((replaced) => {
+        if (replaced) {
+            console.log("[server]: Made the revoked token jti index unique");
+        }
+        return linkLegacyEmployees();
+    })
+    .then((linked) => {
+        if (linked > 0) {
+            console.log(
+                `[server]: Linked ${linked} legacy employees to accounts`
+            );
+        }
+        return markLegacySalesPaid();
+    })
+    .then((marked) => {
+        if (marked > 0) {
+            console.log(`[server]: Marked ${marked} legacy sales as paid`);
+        }
+        return backfillSellTotals();
+    })
+    .then((backfilled) => {
+        if (backfilled > 0) {
+            console.log(
+                `[server]: Computed totals of ${backfilled} legacy sales`
+            );
+        }
+        return backfillAmountPaid();
+    })
+    .then((settled) => {
+        if (settled > 0) {
+            console.log(
+                `[server]: Counted ${settled} legacy paid sales as fully paid`
+            );
+        }
         app.listen(port, () =>
             console.log(
                 `[server]: Server is running at http://localhost:${port}`
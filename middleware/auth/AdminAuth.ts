@@ -1,22 +1,27 @@
 import { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
+
+import { verifyAccessToken } from "../../helpers/token";
 
 export default function (req: Request, res: Response, next: NextFunction) {
-    const { JWT_SECRET } = process.env;
     let authHeader = req.headers.authorization;
     if (authHeader) {
         const token = authHeader.split(" ")[1];
-        jwt.verify(token, JWT_SECRET!, (err, user: any) => {
-            if (err) {
-                return res.sendStatus(403);
-            }
-            if (user.role === "Admin") {
-                req.body.user = user;
-                next();
-            } else {
-                res.sendStatus(401);
-            }
-        });
+        verifyAccessToken(token)
+            .then((user) => {
+                if (user.restriction) {
+                    res.status(403).json({
+                        error: "Login not complete",
+                    });
+                    return;
+                }
+                if (user.role === "Admin") {
+                    req.body.user = user;
+                    next();
+                } else {
+                    res.sendStatus(401);
+                }
+            })
+            .catch(() => res.sendStatus(403));
     } else {
         res.sendStatus(401);
     }
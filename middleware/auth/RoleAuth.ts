@@ -1,11 +1,39 @@
 import { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
 
-import { Role, RoleDefinitions, Permission } from "../../types/role";
-import { hasPermission, hasRequiredRole } from "./../../helpers/auth";
+import { Role, Permission, PermissionOverride } from "../../types/role";
+import { JwtPayload, TokenRestriction } from "../../types/jwt";
+import {
+    hasPermission,
+    hasRequiredRole,
+    isManagerRole,
+} from "./../../helpers/auth";
+import { verifyAccessToken } from "../../helpers/token";
+import { ensureRolesLoaded } from "../../helpers/roles";
+import { loadPermissionOverrides } from "../../helpers/overrides";
+import { extractApiKey, authenticateApiKey } from "../../helpers/apikeys";
+import {
+    isImpersonationBlocked,
+    logImpersonatedRequest,
+} from "../../helpers/impersonation";
+import { handleError } from "../../helpers/errors";
+
+const RestrictionErrors: Record<TokenRestriction, string> = {
+    "change-password": "Password change required",
+    "enroll-2fa": "Two-factor enrollment required",
+};
 
-const verifyToken = (req: Request, res: Response) => {
-    const { JWT_SECRET } = process.env;
+/**
+ * Resolve the bearer token of the request. On failure the response is sent
+ * here and `undefined` is returned, so callers only have to bail out.
+ *
+ * Restricted tokens (first login, pending 2FA enrollment) are refused
+ * everywhere except on the routes that explicitly allow their restriction.
+ */
+const verifyToken = async (
+    req: Request,
+    res: Response,
+    allowRestriction?: TokenRestriction
+): Promise<JwtPayload | undefined> => {
     const authHeader = req.headers.authorization;
 
     if (!authHeader) {
@@ -15,20 +43,101 @@ const verifyToken = (req: Request, res: Response) => {
 
     const token = authHeader.split(" ")[1];
 
+    let user: JwtPayload;
+    try {
+        user = await verifyAccessToken(token);
+    } catch (err) {
+        res.sendStatus(401);
+        return;
+    }
+
+    if (user.restriction && user.restriction !== allowRestriction) {
+        res.status(403).json({
+            error: RestrictionErrors[user.restriction],
+        });
+        return;
+    }
+
+    if (user.impersonator) {
+        logImpersonatedRequest(req, res, user);
+
+        if (isImpersonationBlocked(req, user)) {
+            res.status(403).json({
+                error: "Impersonation is read-only",
+            });
+            return;
+        }
+    }
+
+    try {
+        await ensureRolesLoaded();
+    } catch (err) {
+        handleError(err, res);
+        return;
+    }
+
+    req.body.user = user;
+    return user;
+};
+
+/**
+ * Like verifyToken, but also accepts an API key. Callers authenticated by a
+ * key get `scopes`, the only permissions the key may use on top of what its
+ * account holds.
+ */
+const verifyCaller = async (
+    req: Request,
+    res: Response
+): Promise<{ user: JwtPayload; scopes?: Permission[] } | undefined> => {
+    const apiKey = extractApiKey(req);
+
+    if (!apiKey) {
+        const user = await verifyToken(req, res);
+        return user && { user };
+    }
+
     try {
-        const decoded = jwt.verify(token, JWT_SECRET!);
-        return decoded;
+        const caller = await authenticateApiKey(apiKey);
+        await ensureRolesLoaded();
+        req.body.user = caller.user;
+        req.body.apiKey = caller.keyId;
+        return { user: caller.user, scopes: caller.permissions };
     } catch (err) {
+        handleError(err, res);
+        return;
+    }
+};
+
+function requireLogin(allowRestriction?: TokenRestriction) {
+    return async function (req: Request, res: Response, next: NextFunction) {
+        const user = await verifyToken(req, res, allowRestriction);
+
+        if (!user) {
+            return;
+        }
+
+        next();
+    };
+}
+
+// Overrides of the token subject, or undefined once an error response is sent.
+const loadOverrides = async (
+    user: JwtPayload,
+    res: Response
+): Promise<PermissionOverride[] | undefined> => {
+    try {
+        return await loadPermissionOverrides(user.id);
+    } catch (err) {
+        handleError(err, res);
         return;
     }
 };
 
 function requireRole(roleName: string | Role) {
-    return function (req: Request, res: Response, next: NextFunction) {
-        const user = verifyToken(req, res) as any;
+    return async function (req: Request, res: Response, next: NextFunction) {
+        const user = await verifyToken(req, res);
 
         if (!user) {
-            res.sendStatus(401);
             return;
         }
 
@@ -45,15 +154,24 @@ function requireRole(roleName: string | Role) {
 }
 
 function requirePermission(permission: Permission) {
-    return function (req: Request, res: Response, next: NextFunction) {
-        const user = verifyToken(req, res) as any;
+    return async function (req: Request, res: Response, next: NextFunction) {
+        const caller = await verifyCaller(req, res);
 
-        if (!user) {
-            res.sendStatus(401);
+        if (!caller) {
+            return;
+        }
+
+        const { user, scopes } = caller;
+        const overrides = await loadOverrides(user, res);
+
+        if (!overrides) {
             return;
         }
 
-        if (hasPermission(user.role, permission)) {
+        if (
+            (!scopes || scopes.includes(permission)) &&
+            hasPermission(user.role, permission, overrides)
+        ) {
             next();
         } else {
             res.status(403).json({
@@ -64,16 +182,24 @@ function requirePermission(permission: Permission) {
 }
 
 function requirePermissions(permissions: Permission[]) {
-    return function (req: Request, res: Response, next: NextFunction) {
-        const user = verifyToken(req, res) as any;
+    return async function (req: Request, res: Response, next: NextFunction) {
+        const caller = await verifyCaller(req, res);
 
-        if (!user) {
-            res.sendStatus(401);
+        if (!caller) {
+            return;
+        }
+
+        const { user, scopes } = caller;
+        const overrides = await loadOverrides(user, res);
+
+        if (!overrides) {
             return;
         }
 
-        const hasAllRequired = permissions.every((permission) =>
-            hasPermission(user.role, permission)
+        const hasAllRequired = permissions.every(
+            (permission) =>
+                (!scopes || scopes.includes(permission)) &&
+                hasPermission(user.role, permission, overrides)
         );
 
         if (hasAllRequired) {
@@ -86,17 +212,14 @@ function requirePermissions(permissions: Permission[]) {
     };
 }
 
-function requireManager(req: Request, res: Response, next: NextFunction) {
-    const user = verifyToken(req, res) as any;
+async function requireManager(req: Request, res: Response, next: NextFunction) {
+    const user = await verifyToken(req, res);
 
     if (!user) {
-        res.sendStatus(401);
         return;
     }
 
-    const roleDefinition = RoleDefinitions[user.role as Role];
-
-    if (roleDefinition?.isManager || user.role === Role.Admin) {
+    if (isManagerRole(user.role)) {
         next();
         return;
     } else {
@@ -106,4 +229,25 @@ function requireManager(req: Request, res: Response, next: NextFunction) {
     }
 }
 
-export { requireRole, requirePermission, requirePermissions, requireManager };
+// Goes after an auth middleware on routes that touch credentials, sessions or
+// keys, which an impersonating Admin never gets to use even with allowWrite.
+function forbidImpersonation(req: Request, res: Response, next: NextFunction) {
+    if (req.body.user?.impersonator) {
+        res.status(403).json({
+            error: "Not allowed while impersonating",
+        });
+        return;
+    }
+
+    next();
+}
+
+export {
+    verifyToken,
+    requireLogin,
+    requireRole,
+    requirePermission,
+    requirePermissions,
+    requireManager,
+    forbidImpersonation,
+};
@@ -0,0 +1,100 @@
+import { Request, Response, NextFunction } from "express";
+
+import EmployeeModel from "../../models/EmployeeModels";
+import AccountModel from "../../models/AccountModel";
+import BaseError from "../../types/error";
+import { Permission } from "../../types/role";
+import { hasPermission, canAssignRole } from "../../helpers/auth";
+import { loadPermissionOverrides } from "../../helpers/overrides";
+import { handleError } from "../../helpers/errors";
+import { verifyToken } from "./RoleAuth";
+
+// Returns the id of the account owning the resource targeted by the request,
+// or throws when the resource does not exist.
+type OwnerResolver = (req: Request) => Promise<string>;
+
+const EmployeeNotFound = new BaseError("Employee not found", 404);
+const AccountNotFound = new BaseError("Account not found", 404);
+
+function employeeOwner(getId: (req: Request) => unknown): OwnerResolver {
+    return async (req) => {
+        const employee = await EmployeeModel.findById(getId(req))
+            .select("account")
+            .exec();
+        if (!employee) {
+            throw EmployeeNotFound;
+        }
+        return employee.account.toString();
+    };
+}
+
+function accountOwner(getId: (req: Request) => unknown): OwnerResolver {
+    return async (req) => {
+        const account = await AccountModel.findById(getId(req))
+            .select("_id")
+            .exec();
+        if (!account) {
+            throw AccountNotFound;
+        }
+        return account.id;
+    };
+}
+
+/**
+ * Let the request through when the token subject owns the targeted resource,
+ * or when it holds `managerPermission` (role or override), which is how
+ * managers act on their staff. Anyone else gets a 403.
+ *
+ * Managers only change accounts they outrank, as in they could have assigned
+ * the account its role (see canAssignRole); reading needs no rank.
+ */
+function requireSelfOrManager(
+    resolveOwner: OwnerResolver,
+    managerPermission: Permission
+) {
+    return async function (req: Request, res: Response, next: NextFunction) {
+        const user = await verifyToken(req, res);
+
+        if (!user) {
+            return;
+        }
+
+        try {
+            const owner = await resolveOwner(req);
+            if (owner === user.id) {
+                next();
+                return;
+            }
+
+            const overrides = await loadPermissionOverrides(user.id);
+            if (hasPermission(user.role, managerPermission, overrides)) {
+                if (req.method !== "GET") {
+                    const target = await AccountModel.findById(owner)
+                        .select("role")
+                        .exec();
+                    if (
+                        target &&
+                        !canAssignRole(user.role, target.role, overrides)
+                    ) {
+                        res.status(403).json({
+                            error: "You cannot change an account whose role has permissions you do not hold",
+                        });
+                        return;
+                    }
+                }
+
+                next();
+                return;
+            }
+        } catch (err) {
+            handleError(err, res);
+            return;
+        }
+
+        res.status(403).json({
+            error: "You can only access your own resources",
+        });
+    };
+}
+
+export { requireSelfOrManager, employeeOwner, accountOwner };
@@ -2,13 +2,28 @@ import mongoose, { Schema } from "mongoose";
 
 interface IAccount {
     email: string;
-    password: string;
+    // accounts signing in through the identity provider have no password
+    password?: string;
+    // previous password hashes, newest first, see helpers/password.ts
+    passwordHistory: string[];
     name: string;
     role: string;
     avatarPath: string;
     isVerified: boolean;
     isActive: boolean;
     isFirstTime: boolean;
+    verificationSentAt?: Date;
+    totpEnabled: boolean;
+    totpSecret?: string;
+    totpLastStep?: number;
+    recoveryCodes: string[];
+    failedLoginAttempts: number;
+    lastFailedLoginAt?: Date;
+    lockedUntil?: Date;
+    oidcIssuer?: string;
+    oidcSubject?: string;
+    // the role follows the IdP groups, only for accounts the IdP created
+    roleFromIdp: boolean;
     createdAt: Date;
 }
 
@@ -20,7 +35,13 @@ const AccountSchema = new Schema<IAccount>({
     },
     password: {
         type: String,
-        required: true,
+        required: function (this: IAccount) {
+            return !this.oidcSubject;
+        },
+    },
+    passwordHistory: {
+        type: [String],
+        default: [],
     },
     name: {
         type: String,
@@ -49,6 +70,45 @@ const AccountSchema = new Schema<IAccount>({
         required: true,
         default: true,
     },
+    verificationSentAt: {
+        type: Date,
+    },
+    totpEnabled: {
+        type: Boolean,
+        required: true,
+        default: false,
+    },
+    totpSecret: {
+        type: String,
+    },
+    totpLastStep: {
+        type: Number,
+    },
+    recoveryCodes: {
+        type: [String],
+        default: [],
+    },
+    failedLoginAttempts: {
+        type: Number,
+        required: true,
+        default: 0,
+    },
+    lastFailedLoginAt: {
+        type: Date,
+    },
+    lockedUntil: {
+        type: Date,
+    },
+    oidcIssuer: {
+        type: String,
+    },
+    oidcSubject: {
+        type: String,
+    },
+    roleFromIdp: {
+        type: Boolean,
+        default: false,
+    },
     createdAt: {
         type: Date,
         required: true,
@@ -56,4 +116,13 @@ const AccountSchema = new Schema<IAccount>({
     },
 });
 
+AccountSchema.index(
+    { oidcIssuer: 1, oidcSubject: 1 },
+    {
+        unique: true,
+        partialFilterExpression: { oidcSubject: { $exists: true } },
+    }
+);
+
+export type { IAccount };
 export default mongoose.model<IAccount>("Account", AccountSchema);
@@ -0,0 +1,62 @@
+import mongoose, { Schema, Types } from "mongoose";
+
+import { Permission } from "../types/role";
+
+// Only the sha256 of the key is stored. The prefix is kept in clear so a key
+// can be found and recognised in lists without revealing it.
+interface IApiKey {
+    name: string;
+    prefix: string;
+    keyHash: string;
+    permissions: Permission[];
+    account: Types.ObjectId;
+    lastUsedAt?: Date;
+    expiresAt?: Date;
+    revokedAt?: Date;
+    createdAt: Date;
+}
+
+const ApiKeySchema = new Schema<IApiKey>({
+    name: {
+        type: String,
+        required: true,
+    },
+    prefix: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    keyHash: {
+        type: String,
+        required: true,
+    },
+    permissions: {
+        type: [String],
+        enum: Object.values(Permission),
+        default: [],
+    },
+    // the key acts on behalf of this account and never gets more than it has
+    account: {
+        type: Schema.Types.ObjectId,
+        ref: "Account",
+        required: true,
+        index: true,
+    },
+    lastUsedAt: {
+        type: Date,
+    },
+    expiresAt: {
+        type: Date,
+    },
+    revokedAt: {
+        type: Date,
+    },
+    createdAt: {
+        type: Date,
+        required: true,
+        default: Date.now,
+    },
+});
+
+export type { IApiKey };
+export default mongoose.model<IApiKey>("ApiKey", ApiKeySchema);
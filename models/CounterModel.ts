@@ -0,0 +1,24 @@
+import mongoose, { Schema } from "mongoose";
+
+// Named sequences, for document numbers that must not skip or repeat, and
+// how far one-off migrations got
+interface ICounter {
+    name: string;
+    value: number;
+}
+
+const CounterSchema = new Schema<ICounter>({
+    name: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    value: {
+        type: Number,
+        required: true,
+        default: 0,
+    },
+});
+
+export type { ICounter };
+export default mongoose.model<ICounter>("Counter", CounterSchema);
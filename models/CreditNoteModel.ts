@@ -0,0 +1,128 @@
+import mongoose, { Schema, Types } from "mongoose";
+
+import { CreditNoteStatus, RefundMethod, RefundReason } from "../types/sell";
+
+type CreditNoteKind = "void" | "refund";
+
+interface ICreditNoteLine {
+    line: number; // index in the sale values
+    name: string;
+    quant: number;
+    amount: number;
+}
+
+// Record of money going back to a customer, for a voided sale that had
+// payments or for a refund of a paid sale. Credit notes are never deleted.
+interface ICreditNote {
+    number: string;
+    sell: Types.ObjectId;
+    kind: CreditNoteKind;
+    reason: RefundReason;
+    note?: string;
+    amount: number;
+    tax: number; // part of the amount that was tax
+    lines: ICreditNoteLine[];
+    method: RefundMethod;
+    customer?: Types.ObjectId; // credited, for store credit
+    status: CreditNoteStatus;
+    requestedBy: Types.ObjectId;
+    requestedAt: Date;
+    reviewedBy?: Types.ObjectId;
+    reviewedAt?: Date;
+    reviewNote?: string;
+}
+
+const CreditNoteSchema = new Schema<ICreditNote>({
+    number: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    sell: {
+        type: Schema.Types.ObjectId,
+        ref: "Sell",
+        required: true,
+        index: true,
+    },
+    kind: {
+        type: String,
+        enum: ["void", "refund"],
+        required: true,
+    },
+    reason: {
+        type: String,
+        enum: Object.values(RefundReason),
+        required: true,
+    },
+    note: {
+        type: String,
+    },
+    amount: {
+        type: Number,
+        required: true,
+    },
+    tax: {
+        type: Number,
+        required: true,
+        default: 0,
+    },
+    lines: [
+        {
+            _id: false,
+            line: {
+                type: Number,
+                required: true,
+            },
+            name: {
+                type: String,
+                required: true,
+            },
+            quant: {
+                type: Number,
+                required: true,
+            },
+            amount: {
+                type: Number,
+                required: true,
+            },
+        },
+    ],
+    method: {
+        type: String,
+        enum: Object.values(RefundMethod),
+        required: true,
+    },
+    customer: {
+        type: Schema.Types.ObjectId,
+        ref: "Customer",
+    },
+    status: {
+        type: String,
+        enum: Object.values(CreditNoteStatus),
+        required: true,
+        index: true,
+    },
+    requestedBy: {
+        type: Schema.Types.ObjectId,
+        ref: "Account",
+        required: true,
+    },
+    requestedAt: {
+        type: Date,
+        required: true,
+        default: Date.now,
+    },
+    reviewedBy: {
+        type: Schema.Types.ObjectId,
+        ref: "Account",
+    },
+    reviewedAt: {
+        type: Date,
+    },
+    reviewNote: {
+        type: String,
+    },
+});
+
+export type { ICreditNote, ICreditNoteLine, CreditNoteKind };
+export default mongoose.model<ICreditNote>("CreditNote", CreditNoteSchema);
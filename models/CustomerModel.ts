@@ -8,6 +8,7 @@ interface ICustomer {
     sex: string;
     address: string;
     isActive?: boolean;
+    storeCredit: number; // balance that can pay for sales
 }
 
 const CustomerSchema = new Schema<ICustomer>({
@@ -39,6 +40,13 @@ const CustomerSchema = new Schema<ICustomer>({
         type: Boolean,
         default: true,
     },
+    storeCredit: {
+        type: Number,
+        required: true,
+        default: 0,
+        min: 0,
+    },
 });
 
+export type { ICustomer };
 export default mongoose.model<ICustomer>("Customer", CustomerSchema);
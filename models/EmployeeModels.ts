@@ -1,76 +1,70 @@
 import mongoose, { Schema, Types } from "mongoose";
 
 import CheckinModels, { ICheckin, CheckinSchema } from "./CheckinModels";
+import { IAccount } from "./AccountModel";
 
+// Login, role and status live on the linked account, the employee document
+// only holds the staff profile.
 interface IEmployee {
     _id: string;
-    name: string;
-    email: string;
+    account: Types.ObjectId | (IAccount & { _id: Types.ObjectId });
     phoneNumber: string;
-    role: string;
-    password: string;
-    isActive: boolean;
-    isVerified: boolean;
-    isFirstTime: boolean;
     birthDate: string;
     sex: string;
     address: string;
     checkins: Types.DocumentArray<ICheckin & Document>;
 }
 
-const EmployeeSchema = new Schema<IEmployee>({
-    name: {
-        type: String,
-        required: true,
-    },
-    email: {
-        type: String,
-        required: true,
-    },
-    phoneNumber: {
-        type: String,
-        required: true,
-    },
-    role: {
-        type: String,
-        required: true,
-    },
-    password: {
-        type: String,
-        required: true,
-    },
-    isActive: {
-        type: Boolean,
-        required: true,
-        default: true,
-    },
-    isVerified: {
-        type: Boolean,
-        required: true,
-        default: false,
-    },
-    isFirstTime: {
-        type: Boolean,
-        required: true,
-        default: true,
-    },
-    checkins: {
-        type: [CheckinSchema],
-        default: [],
-    },
-    birthDate: {
-        type: String,
-        required: true,
-    },
-    sex: {
-        type: String,
-        required: true,
-    },
-    address: {
-        type: String,
-        required: true,
+// Account fields exposed on employees, never include the password or secrets.
+const EmployeeAccountFields = "email name role isActive isVerified isFirstTime";
+
+const EmployeeSchema = new Schema<IEmployee>(
+    {
+        account: {
+            type: Schema.Types.ObjectId,
+            ref: "Account",
+            unique: true,
+            required: true,
+        },
+        phoneNumber: {
+            type: String,
+            required: true,
+        },
+        checkins: {
+            type: [CheckinSchema],
+            default: [],
+        },
+        birthDate: {
+            type: String,
+            required: true,
+        },
+        sex: {
+            type: String,
+            required: true,
+        },
+        address: {
+            type: String,
+            required: true,
+        },
     },
+    {
+        toJSON: { virtuals: true },
+        toObject: { virtuals: true },
+    }
+);
+
+// Keep the flat shape clients already read when the account is populated.
+(
+    ["name", "email", "role", "isActive", "isVerified", "isFirstTime"] as const
+).forEach((field) => {
+    EmployeeSchema.virtual(field).get(function () {
+        const account = this.account;
+        return account && !(account instanceof Types.ObjectId)
+            ? account[field]
+            : undefined;
+    });
 });
 
 export type { IEmployee };
+export { EmployeeAccountFields };
 export default mongoose.model<IEmployee>("Employee", EmployeeSchema);
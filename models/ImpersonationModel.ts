@@ -0,0 +1,80 @@
+import mongoose, { Schema, Types } from "mongoose";
+
+interface IImpersonatedRequest {
+    method: string;
+    path: string;
+    status: number;
+    at: Date;
+}
+
+// Audit record of one impersonation token and every request made with it.
+// Kept after the token expires.
+interface IImpersonation {
+    admin: Types.ObjectId;
+    target: Types.ObjectId;
+    reason: string;
+    allowWrite: boolean;
+    jti: string;
+    startedAt: Date;
+    expiresAt: Date;
+    endedAt?: Date;
+    requests: IImpersonatedRequest[];
+}
+
+const ImpersonationSchema = new Schema<IImpersonation>({
+    admin: {
+        type: Schema.Types.ObjectId,
+        ref: "Account",
+        required: true,
+    },
+    target: {
+        type: Schema.Types.ObjectId,
+        ref: "Account",
+        required: true,
+        index: true,
+    },
+    reason: {
+        type: String,
+        required: true,
+    },
+    allowWrite: {
+        type: Boolean,
+        required: true,
+        default: false,
+    },
+    jti: {
+        type: String,
+        unique: true,
+        required: true,
+    },
+    startedAt: {
+        type: Date,
+        required: true,
+        default: Date.now,
+    },
+    expiresAt: {
+        type: Date,
+        required: true,
+    },
+    endedAt: {
+        type: Date,
+    },
+    requests: {
+        type: [
+            {
+                _id: false,
+                method: String,
+                path: String,
+                status: Number,
+                at: Date,
+            },
+        ],
+        default: [],
+    },
+});
+
+export type { IImpersonation, IImpersonatedRequest };
+export default mongoose.model<IImpersonation>(
+    "Impersonation",
+    ImpersonationSchema
+);
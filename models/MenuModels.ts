@@ -1,10 +1,12 @@
-import mongoose, { Schema } from "mongoose";
+import mongoose, { Schema, Types } from "mongoose";
 
 interface IMenuItem {
     name: string;
     type: string;
     price: number;
+    unit: string;
     isAvailable: boolean;
+    modifierGroups: Types.ObjectId[];
 }
 
 const MenuItemSchema = new Schema<IMenuItem>({
@@ -20,10 +22,21 @@ const MenuItemSchema = new Schema<IMenuItem>({
         type: Number,
         required: true,
     },
+    unit: {
+        type: String,
+        required: true,
+        default: "item",
+    },
     isAvailable: {
         type: Boolean,
         default: true,
     },
+    modifierGroups: [
+        {
+            type: Schema.Types.ObjectId,
+            ref: "ModifierGroup",
+        },
+    ],
 });
 
 export type { IMenuItem };
@@ -0,0 +1,70 @@
+import mongoose, { Schema, Types } from "mongoose";
+
+type ModifierSelection = "single" | "multi";
+
+interface IModifierOption {
+    _id: Types.ObjectId;
+    name: string;
+    priceDelta: number; // added to the item price, may be negative
+    isAvailable: boolean;
+}
+
+// A choice offered on menu items, like the size or the milk of a drink. Groups
+// are shared, so one "Milk" group can be attached to every coffee.
+interface IModifierGroup {
+    name: string;
+    selection: ModifierSelection;
+    min: number;
+    max: number;
+    required: boolean;
+    options: Types.DocumentArray<IModifierOption>;
+}
+
+const ModifierOptionSchema = new Schema<IModifierOption>({
+    name: {
+        type: String,
+        required: true,
+    },
+    priceDelta: {
+        type: Number,
+        required: true,
+        default: 0,
+    },
+    isAvailable: {
+        type: Boolean,
+        default: true,
+    },
+});
+
+const ModifierGroupSchema = new Schema<IModifierGroup>({
+    name: {
+        type: String,
+        required: true,
+    },
+    selection: {
+        type: String,
+        enum: ["single", "multi"],
+        required: true,
+    },
+    min: {
+        type: Number,
+        required: true,
+        default: 0,
+    },
+    max: {
+        type: Number,
+        required: true,
+        default: 1,
+    },
+    required: {
+        type: Boolean,
+        default: false,
+    },
+    options: [ModifierOptionSchema],
+});
+
+export type { IModifierGroup, IModifierOption, ModifierSelection };
+export default mongoose.model<IModifierGroup>(
+    "ModifierGroup",
+    ModifierGroupSchema
+);
@@ -0,0 +1,39 @@
+import mongoose, { Schema, Types } from "mongoose";
+
+// Pending OIDC authorization request, consumed by the callback.
+interface IOidcState {
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+    // set when an account holder started the login to link their IdP identity
+    linkAccount?: Types.ObjectId;
+    expiresAt: Date;
+}
+
+const OidcStateSchema = new Schema<IOidcState>({
+    state: {
+        type: String,
+        unique: true,
+        required: true,
+    },
+    nonce: {
+        type: String,
+        required: true,
+    },
+    codeVerifier: {
+        type: String,
+        required: true,
+    },
+    linkAccount: {
+        type: Schema.Types.ObjectId,
+        ref: "Account",
+    },
+    expiresAt: {
+        type: Date,
+        required: true,
+        expires: 0,
+    },
+});
+
+export type { IOidcState };
+export default mongoose.model<IOidcState>("OidcState", OidcStateSchema);
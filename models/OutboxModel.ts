@@ -0,0 +1,32 @@
+import mongoose, { Schema } from "mongoose";
+
+interface IOutboxMail {
+    to: string;
+    subject: string;
+    text: string;
+    createdAt: Date;
+}
+
+const OutboxSchema = new Schema<IOutboxMail>({
+    to: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    subject: {
+        type: String,
+        required: true,
+    },
+    text: {
+        type: String,
+        required: true,
+    },
+    createdAt: {
+        type: Date,
+        required: true,
+        default: Date.now,
+    },
+});
+
+export type { IOutboxMail };
+export default mongoose.model<IOutboxMail>("Outbox", OutboxSchema);
@@ -0,0 +1,57 @@
+import mongoose, { Schema, Types } from "mongoose";
+
+import { Permission, PermissionEffect } from "../types/role";
+
+interface IPermissionOverride {
+    account: Types.ObjectId;
+    permission: Permission;
+    effect: PermissionEffect;
+    reason?: string;
+    expiresAt?: Date;
+    createdBy: Types.ObjectId;
+    createdAt: Date;
+}
+
+const PermissionOverrideSchema = new Schema<IPermissionOverride>({
+    account: {
+        type: Schema.Types.ObjectId,
+        ref: "Account",
+        required: true,
+    },
+    permission: {
+        type: String,
+        enum: Object.values(Permission),
+        required: true,
+    },
+    effect: {
+        type: String,
+        enum: ["grant", "deny"],
+        required: true,
+    },
+    reason: {
+        type: String,
+    },
+    // mongo drops the override once it has expired, permanent ones have none
+    expiresAt: {
+        type: Date,
+        expires: 0,
+    },
+    createdBy: {
+        type: Schema.Types.ObjectId,
+        ref: "Account",
+        required: true,
+    },
+    createdAt: {
+        type: Date,
+        required: true,
+        default: Date.now,
+    },
+});
+
+PermissionOverrideSchema.index({ account: 1, permission: 1 }, { unique: true });
+
+export type { IPermissionOverride };
+export default mongoose.model<IPermissionOverride>(
+    "PermissionOverride",
+    PermissionOverrideSchema
+);
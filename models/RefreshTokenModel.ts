@@ -0,0 +1,47 @@
+import mongoose, { Schema, Types } from "mongoose";
+
+interface IRefreshToken {
+    account: Types.ObjectId;
+    tokenHash: string;
+    family: string;
+    expiresAt: Date;
+    revokedAt?: Date;
+    createdAt: Date;
+}
+
+const RefreshTokenSchema = new Schema<IRefreshToken>({
+    account: {
+        type: Schema.Types.ObjectId,
+        ref: "Account",
+        required: true,
+    },
+    tokenHash: {
+        type: String,
+        unique: true,
+        required: true,
+    },
+    family: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    expiresAt: {
+        type: Date,
+        required: true,
+        expires: 0,
+    },
+    revokedAt: {
+        type: Date,
+    },
+    createdAt: {
+        type: Date,
+        required: true,
+        default: Date.now,
+    },
+});
+
+export type { IRefreshToken };
+export default mongoose.model<IRefreshToken>(
+    "RefreshToken",
+    RefreshTokenSchema
+);
@@ -0,0 +1,33 @@
+import mongoose, { Schema } from "mongoose";
+
+interface IRevokedToken {
+    jti?: string;
+    sid?: string;
+    expiresAt: Date;
+}
+
+// Entries only need to outlive the access tokens they revoke, so mongo drops
+// them once `expiresAt` has passed.
+const RevokedTokenSchema = new Schema<IRevokedToken>({
+    // unique so an action token can only be burnt once, see consumeActionToken
+    jti: {
+        type: String,
+        unique: true,
+        sparse: true,
+    },
+    sid: {
+        type: String,
+        index: true,
+    },
+    expiresAt: {
+        type: Date,
+        required: true,
+        expires: 0,
+    },
+});
+
+export type { IRevokedToken };
+export default mongoose.model<IRevokedToken>(
+    "RevokedToken",
+    RevokedTokenSchema
+);
@@ -0,0 +1,44 @@
+import mongoose, { Schema, Types } from "mongoose";
+
+// Audit trail of role assignments, one entry per change. Entries are never
+// updated or removed, even when the account is deleted.
+interface IRoleChange {
+    account: Types.ObjectId;
+    previousRole?: string;
+    newRole: string;
+    reason?: string;
+    changedBy: Types.ObjectId;
+    createdAt: Date;
+}
+
+const RoleChangeSchema = new Schema<IRoleChange>({
+    account: {
+        type: Schema.Types.ObjectId,
+        ref: "Account",
+        required: true,
+        index: true,
+    },
+    previousRole: {
+        type: String,
+    },
+    newRole: {
+        type: String,
+        required: true,
+    },
+    reason: {
+        type: String,
+    },
+    changedBy: {
+        type: Schema.Types.ObjectId,
+        ref: "Account",
+        required: true,
+    },
+    createdAt: {
+        type: Date,
+        required: true,
+        default: Date.now,
+    },
+});
+
+export type { IRoleChange };
+export default mongoose.model<IRoleChange>("RoleChange", RoleChangeSchema);
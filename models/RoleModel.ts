@@ -0,0 +1,51 @@
+import mongoose, { Schema } from "mongoose";
+
+import { Permission } from "../types/role";
+
+interface IRole {
+    name: string;
+    isManager: boolean;
+    extendFrom: string[];
+    permissions: Permission[];
+    isSystem: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const RoleSchema = new Schema<IRole>({
+    name: {
+        type: String,
+        unique: true,
+        required: true,
+    },
+    isManager: {
+        type: Boolean,
+        required: true,
+        default: false,
+    },
+    extendFrom: {
+        type: [String],
+        default: [],
+    },
+    permissions: {
+        type: [String],
+        enum: Object.values(Permission),
+        default: [],
+    },
+    isSystem: {
+        type: Boolean,
+        required: true,
+        default: false,
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
+export type { IRole };
+export default mongoose.model<IRole>("Role", RoleSchema);
@@ -1,10 +1,73 @@
-import mongoose, { Schema } from "mongoose";
+import mongoose, { Schema, Types } from "mongoose";
 
+import {
+    SellStatus,
+    OrderType,
+    PaymentMethod,
+    RefundReason,
+} from "../types/sell";
+
+interface ISellModifier {
+    group: Types.ObjectId;
+    groupName: string;
+    option: Types.ObjectId;
+    name: string;
+    priceDelta: number;
+}
+
+// Name, price, unit and the chosen modifiers are copied from the menu when the
+// sale is made, so later menu changes do not rewrite past sales.
 interface ISellItem {
+    menuItem?: Types.ObjectId; // missing on sales made before lines referenced the menu
     name: string;
     price: number;
     quant: number;
     unit: string;
+    modifiers: ISellModifier[];
+    total?: number; // (price + modifier deltas) * quant, missing on legacy sales
+    // tax breakdown, missing on sales made before taxes were computed
+    category?: string;
+    discount?: number; // share of the order discount
+    taxName?: string;
+    taxRate?: number; // percent
+    net?: number; // after discount, without tax
+    tax?: number;
+    refundedQuant: number;
+}
+
+// Tax of the order for one rate, the service charge tax being its own entry
+interface ISellTax {
+    name: string;
+    rate: number;
+    net: number;
+    tax: number;
+}
+
+// Money received for a sale. A bill can be split over several payments, by
+// method and by person (payer).
+interface ISellPayment {
+    _id: Types.ObjectId;
+    method: PaymentMethod;
+    amount: number; // applied to the bill
+    tendered?: number; // cash handed over
+    change?: number; // cash given back
+    payer?: string;
+    reference?: string; // card or e-wallet transaction
+    voucher?: Types.ObjectId;
+    customer?: Types.ObjectId; // whose store credit was used
+    receivedAt: Date;
+    receivedBy: Types.ObjectId;
+}
+
+// One entry per status change, the first one being the creation of the sale.
+// Cancellations also record why the sale was voided.
+interface ISellTransition {
+    from?: SellStatus;
+    to: SellStatus;
+    at: Date;
+    by: Types.ObjectId;
+    reason?: RefundReason;
+    note?: string;
 }
 
 interface ISell {
@@ -13,6 +76,20 @@ interface ISell {
     sellDate: string;
     voucher?: string;
     values: ISellItem[];
+    subtotal: number;
+    discount: number;
+    finalValue: number;
+    orderType: OrderType;
+    pricesIncludeTax?: boolean;
+    serviceChargeRate: number;
+    serviceCharge: number;
+    taxTotal: number;
+    taxes: ISellTax[];
+    payments: Types.DocumentArray<ISellPayment>;
+    amountPaid: number;
+    refundedAmount: number; // given back through approved credit notes
+    status: SellStatus;
+    statusHistory: ISellTransition[];
 }
 
 const SellModel = new Schema<ISell>({
@@ -33,6 +110,10 @@ const SellModel = new Schema<ISell>({
     },
     values: [
         {
+            menuItem: {
+                type: Schema.Types.ObjectId,
+                ref: "MenuItem",
+            },
             name: {
                 type: String,
                 required: true,
@@ -49,9 +130,216 @@ const SellModel = new Schema<ISell>({
                 type: String,
                 required: true,
             },
+            modifiers: [
+                {
+                    _id: false,
+                    group: {
+                        type: Schema.Types.ObjectId,
+                        ref: "ModifierGroup",
+                        required: true,
+                    },
+                    groupName: {
+                        type: String,
+                        required: true,
+                    },
+                    option: {
+                        type: Schema.Types.ObjectId,
+                        required: true,
+                    },
+                    name: {
+                        type: String,
+                        required: true,
+                    },
+                    priceDelta: {
+                        type: Number,
+                        required: true,
+                    },
+                },
+            ],
+            total: {
+                type: Number,
+            },
+            category: {
+                type: String,
+            },
+            discount: {
+                type: Number,
+            },
+            taxName: {
+                type: String,
+            },
+            taxRate: {
+                type: Number,
+            },
+            net: {
+                type: Number,
+            },
+            tax: {
+                type: Number,
+            },
+            refundedQuant: {
+                type: Number,
+                default: 0,
+            },
+        },
+    ],
+    subtotal: {
+        type: Number,
+        required: true,
+    },
+    discount: {
+        type: Number,
+        required: true,
+        default: 0,
+    },
+    finalValue: {
+        type: Number,
+        required: true,
+    },
+    orderType: {
+        type: String,
+        enum: Object.values(OrderType),
+        required: true,
+        default: OrderType.Takeaway,
+    },
+    pricesIncludeTax: {
+        type: Boolean,
+    },
+    serviceChargeRate: {
+        type: Number,
+        required: true,
+        default: 0,
+    },
+    serviceCharge: {
+        type: Number,
+        required: true,
+        default: 0,
+    },
+    taxTotal: {
+        type: Number,
+        required: true,
+        default: 0,
+    },
+    taxes: [
+        {
+            _id: false,
+            name: {
+                type: String,
+                required: true,
+            },
+            rate: {
+                type: Number,
+                required: true,
+            },
+            net: {
+                type: Number,
+                required: true,
+            },
+            tax: {
+                type: Number,
+                required: true,
+            },
+        },
+    ],
+    payments: [
+        {
+            method: {
+                type: String,
+                enum: Object.values(PaymentMethod),
+                required: true,
+            },
+            amount: {
+                type: Number,
+                required: true,
+            },
+            tendered: {
+                type: Number,
+            },
+            change: {
+                type: Number,
+            },
+            payer: {
+                type: String,
+            },
+            reference: {
+                type: String,
+            },
+            voucher: {
+                type: Schema.Types.ObjectId,
+                ref: "Voucher",
+            },
+            customer: {
+                type: Schema.Types.ObjectId,
+                ref: "Customer",
+            },
+            receivedAt: {
+                type: Date,
+                required: true,
+                default: Date.now,
+            },
+            receivedBy: {
+                type: Schema.Types.ObjectId,
+                ref: "Account",
+                required: true,
+            },
+        },
+    ],
+    amountPaid: {
+        type: Number,
+        required: true,
+        default: 0,
+    },
+    refundedAmount: {
+        type: Number,
+        required: true,
+        default: 0,
+    },
+    status: {
+        type: String,
+        enum: Object.values(SellStatus),
+        required: true,
+        default: SellStatus.Pending,
+        index: true,
+    },
+    statusHistory: [
+        {
+            _id: false,
+            from: {
+                type: String,
+                enum: Object.values(SellStatus),
+            },
+            to: {
+                type: String,
+                enum: Object.values(SellStatus),
+                required: true,
+            },
+            at: {
+                type: Date,
+                required: true,
+                default: Date.now,
+            },
+            by: {
+                type: Schema.Types.ObjectId,
+                ref: "Account",
+                required: true,
+            },
+            reason: {
+                type: String,
+                enum: Object.values(RefundReason),
+            },
+            note: {
+                type: String,
+            },
         },
     ],
 });
 
-export type { ISell, ISellItem };
+export type {
+    ISell,
+    ISellItem,
+    ISellModifier,
+    ISellTax,
+    ISellPayment,
+    ISellTransition,
+};
 export default mongoose.model<ISell>("Sell", SellModel);
@@ -0,0 +1,56 @@
+import mongoose, { Schema, Types } from "mongoose";
+
+// One document per login. The sid is the refresh token family and is carried
+// by every access token issued for the session.
+interface ISession {
+    sid: string;
+    account: Types.ObjectId;
+    userAgent?: string;
+    ip?: string;
+    createdAt: Date;
+    lastSeenAt: Date;
+    expiresAt: Date;
+    revokedAt?: Date;
+}
+
+const SessionSchema = new Schema<ISession>({
+    sid: {
+        type: String,
+        unique: true,
+        required: true,
+    },
+    account: {
+        type: Schema.Types.ObjectId,
+        ref: "Account",
+        required: true,
+        index: true,
+    },
+    userAgent: {
+        type: String,
+    },
+    ip: {
+        type: String,
+    },
+    createdAt: {
+        type: Date,
+        required: true,
+        default: Date.now,
+    },
+    lastSeenAt: {
+        type: Date,
+        required: true,
+        default: Date.now,
+    },
+    // pushed back on every refresh, mongo drops sessions nobody refreshed
+    expiresAt: {
+        type: Date,
+        required: true,
+        expires: 0,
+    },
+    revokedAt: {
+        type: Date,
+    },
+});
+
+export type { ISession };
+export default mongoose.model<ISession>("Session", SessionSchema);
@@ -0,0 +1,50 @@
+import mongoose, { Schema } from "mongoose";
+
+// Token signing key pair. The private key is stored encrypted with
+// JWT_KEY_PASSPHRASE, the public key is published in the JWKS.
+interface ISigningKey {
+    kid: string;
+    algorithm: string;
+    publicKey: string;
+    privateKey: string;
+    activatesAt: Date;
+    expiresAt?: Date;
+    createdAt: Date;
+}
+
+const SigningKeySchema = new Schema<ISigningKey>({
+    kid: {
+        type: String,
+        unique: true,
+        required: true,
+    },
+    algorithm: {
+        type: String,
+        required: true,
+    },
+    publicKey: {
+        type: String,
+        required: true,
+    },
+    privateKey: {
+        type: String,
+        required: true,
+    },
+    activatesAt: {
+        type: Date,
+        required: true,
+    },
+    // set once a newer key takes over, mongo drops the key after that
+    expiresAt: {
+        type: Date,
+        expires: 0,
+    },
+    createdAt: {
+        type: Date,
+        required: true,
+        default: Date.now,
+    },
+});
+
+export type { ISigningKey };
+export default mongoose.model<ISigningKey>("SigningKey", SigningKeySchema);
@@ -0,0 +1,36 @@
+import mongoose, { Schema } from "mongoose";
+
+// Tax applied to the menu items of a category (IMenuItem.type). Categories
+// without a rate use TAX_DEFAULT_RATE, see helpers/tax.ts
+interface ITaxRate {
+    category: string;
+    name: string;
+    rate: number; // percent
+    updatedAt: Date;
+}
+
+const TaxRateSchema = new Schema<ITaxRate>({
+    category: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    name: {
+        type: String,
+        required: true,
+    },
+    rate: {
+        type: Number,
+        required: true,
+        min: 0,
+        max: 100,
+    },
+    updatedAt: {
+        type: Date,
+        required: true,
+        default: Date.now,
+    },
+});
+
+export type { ITaxRate };
+export default mongoose.model<ITaxRate>("TaxRate", TaxRateSchema);
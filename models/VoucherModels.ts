@@ -1,9 +1,12 @@
-import mongoose, { Schema } from "mongoose";
+import mongoose, { Schema, Types } from "mongoose";
 
 interface IVoucher {
     name: string;
     value: number;
     exipryDate: Date;
+    // set once the voucher paid for a sale, it cannot be used again
+    redeemedAt?: Date;
+    redeemedBy?: Types.ObjectId;
 }
 
 const VoucherSchema = new Schema<IVoucher>({
@@ -20,6 +23,14 @@ const VoucherSchema = new Schema<IVoucher>({
         required: true,
         default: Date.now,
     },
+    redeemedAt: {
+        type: Date,
+    },
+    redeemedBy: {
+        type: Schema.Types.ObjectId,
+        ref: "Sell",
+    },
 });
 
+export type { IVoucher };
 export default mongoose.model<IVoucher>("Voucher", VoucherSchema);
@@ -0,0 +1,305 @@
+import { Router, Request, Response } from "express";
+import { HydratedDocument } from "mongoose";
+
+import ApiKeyModel, { IApiKey } from "../models/ApiKeyModel";
+import BaseError from "../types/error";
+import { handleError } from "../helpers/errors";
+import { checkEmptyFields } from "../helpers/general";
+import { hasPermission } from "../helpers/auth";
+import { generateApiKey } from "../helpers/apikeys";
+import { loadPermissionOverrides } from "../helpers/overrides";
+
+import {
+    requireManager,
+    forbidImpersonation,
+} from "../middleware/auth/RoleAuth";
+import limiter from "../middleware/RateLimiter";
+import { Role, Permission, isValidPermission } from "../types/role";
+
+const ApiKeyRoutes = Router();
+
+const ApiKeyNotFound = new BaseError("API key not found", 404);
+const NameNotValid = new BaseError("Name not valid", 400);
+const PermissionsNotValid = new BaseError(
+    "permissions must be a non-empty array of permissions",
+    400
+);
+const ManageAllNotAllowed = new BaseError(
+    `API keys cannot have ${Permission.MANAGE_ALL}`,
+    400
+);
+const ExpiryNotValid = new BaseError(
+    "expiresAt must be a date in the future",
+    400
+);
+const PermissionNotHeld = new BaseError(
+    "Cannot give a key a permission you do not hold",
+    403
+);
+
+// Never expose the hash, the prefix is enough to recognise a key.
+function serializeApiKey(apiKey: HydratedDocument<IApiKey>) {
+    return {
+        id: apiKey._id,
+        name: apiKey.name,
+        prefix: apiKey.prefix,
+        permissions: apiKey.permissions,
+        account: apiKey.account,
+        lastUsedAt: apiKey.lastUsedAt ?? null,
+        expiresAt: apiKey.expiresAt ?? null,
+        revokedAt: apiKey.revokedAt ?? null,
+        createdAt: apiKey.createdAt,
+    };
+}
+
+/**
+ * @swagger
+ * tags:
+ *   - name: ApiKey
+ *     description: API keys for POS terminals and integrations
+ * /api-key/add:
+ *   post:
+ *     summary: Create an API key
+ *     description: Create a key acting on behalf of the caller, limited to the given permissions. The caller must hold every one of them. The key is only returned here, send it in the X-API-Key header or as a bearer token. Keys are accepted by routes guarded by permissions only.
+ *     tags:
+ *       - ApiKey
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - permissions
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Counter tablet 1
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["view_menu_items", "view_products"]
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 example: 2025-01-01T00:00:00.000Z
+ *     responses:
+ *       200:
+ *         description: API key created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 key:
+ *                   type: string
+ *                   example: csk_1a2b3c4d5e6f_Xq3v9Jk2mN8pL4rT7wY1zA5bC6dE0fGh
+ *                 apiKey:
+ *                   type: object
+ *       400:
+ *         description: Invalid name, permissions or expiry
+ *       403:
+ *         description: Caller does not hold every permission
+ */
+ApiKeyRoutes.post(
+    "/add",
+    limiter,
+    requireManager,
+    forbidImpersonation,
+    async (req: Request, res: Response) => {
+        if (checkEmptyFields(["name", "permissions"], req.body)) {
+            res.status(400).json({
+                result: "error",
+                message: "Missing required fields",
+            });
+            return;
+        }
+
+        const { user, name, permissions, expiresAt } = req.body;
+
+        try {
+            if (typeof name !== "string" || !name.trim()) {
+                throw NameNotValid;
+            }
+
+            if (
+                !Array.isArray(permissions) ||
+                permissions.length === 0 ||
+                !permissions.every(isValidPermission)
+            ) {
+                throw PermissionsNotValid;
+            }
+
+            if (permissions.includes(Permission.MANAGE_ALL)) {
+                throw ManageAllNotAllowed;
+            }
+
+            let expiry: Date | undefined;
+            if (expiresAt) {
+                expiry = new Date(expiresAt);
+                if (isNaN(expiry.getTime()) || expiry <= new Date()) {
+                    throw ExpiryNotValid;
+                }
+            }
+
+            const overrides = await loadPermissionOverrides(user.id);
+            const held = permissions.every((permission: Permission) =>
+                hasPermission(user.role, permission, overrides)
+            );
+            if (!held) {
+                throw PermissionNotHeld;
+            }
+
+            const { key, prefix, keyHash } = generateApiKey();
+            const apiKey = await ApiKeyModel.create({
+                name: name.trim(),
+                prefix,
+                keyHash,
+                permissions: Array.from(new Set(permissions)),
+                account: user.id,
+                expiresAt: expiry,
+            });
+
+            res.status(200).json({
+                result: "success",
+                message: "API key created, it will not be shown again",
+                key,
+                apiKey: serializeApiKey(apiKey),
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /api-key/list:
+ *   get:
+ *     summary: List API keys
+ *     description: List the keys created by the caller, Admin sees every key. Revoked keys are included.
+ *     tags:
+ *       - ApiKey
+ *     responses:
+ *       200:
+ *         description: List of API keys
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 apiKeys:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       name:
+ *                         type: string
+ *                         example: Counter tablet 1
+ *                       prefix:
+ *                         type: string
+ *                         example: csk_1a2b3c4d5e6f
+ *                       permissions:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                       lastUsedAt:
+ *                         type: string
+ *                         nullable: true
+ *                       expiresAt:
+ *                         type: string
+ *                         nullable: true
+ *                       revokedAt:
+ *                         type: string
+ *                         nullable: true
+ */
+ApiKeyRoutes.get(
+    "/list",
+    limiter,
+    requireManager,
+    forbidImpersonation,
+    async (req: Request, res: Response) => {
+        const { user } = req.body;
+
+        try {
+            const filter = user.role === Role.Admin ? {} : { account: user.id };
+            const apiKeys = await ApiKeyModel.find(filter)
+                .sort({ createdAt: -1 })
+                .populate("account", "name email")
+                .exec();
+
+            res.status(200).json({
+                result: "success",
+                apiKeys: apiKeys.map(serializeApiKey),
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /api-key/revoke/{id}:
+ *   post:
+ *     summary: Revoke an API key
+ *     description: Revoke a key immediately. Only the creator of the key or Admin can revoke it.
+ *     tags:
+ *       - ApiKey
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ *       404:
+ *         description: API key not found
+ */
+ApiKeyRoutes.post(
+    "/revoke/:id",
+    limiter,
+    requireManager,
+    forbidImpersonation,
+    async (req: Request, res: Response) => {
+        const { user } = req.body;
+
+        try {
+            const apiKey = await ApiKeyModel.findById(req.params.id).exec();
+            // other managers' keys are reported as missing
+            if (
+                !apiKey ||
+                (user.role !== Role.Admin &&
+                    apiKey.account.toString() !== user.id)
+            ) {
+                throw ApiKeyNotFound;
+            }
+
+            if (!apiKey.revokedAt) {
+                apiKey.revokedAt = new Date();
+                await apiKey.save();
+            }
+
+            res.status(200).json({
+                result: "success",
+                message: "API key revoked",
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+export default ApiKeyRoutes;
@@ -1,20 +1,88 @@
 import { Router, Request, Response } from "express";
 import { compare, hash } from "bcrypt";
-import jwt from "jsonwebtoken";
+import { HydratedDocument } from "mongoose";
+import { randomBytes } from "crypto";
 
-import AccountModel from "../models/AccountModel";
+import AccountModel, { IAccount } from "../models/AccountModel";
+import SessionModel from "../models/SessionModel";
+import RoleChangeModel from "../models/RoleChangeModel";
+import ImpersonationModel from "../models/ImpersonationModel";
 import BaseError from "../types/error";
+import { Role, Permission } from "../types/role";
 import { handleError } from "../helpers/errors";
+import { sendMail, buildAppLink, sendVerificationEmail } from "../helpers/mail";
+import {
+    isTwoFactorRequired,
+    isManagerRole,
+    getEffectivePermissions,
+} from "../helpers/auth";
+import {
+    ensureRolesLoaded,
+    getRolePermissions,
+    getInheritedRoles,
+} from "../helpers/roles";
+import { loadPermissionOverrides } from "../helpers/overrides";
+import { validatePassword, setAccountPassword } from "../helpers/password";
+import {
+    startImpersonation,
+    stopImpersonation,
+} from "../helpers/impersonation";
+import {
+    OidcIdentity,
+    getOidcConfig,
+    createAuthorizationUrl,
+    completeAuthorization,
+    mapGroupsToRole,
+} from "../helpers/oidc";
+import {
+    getLockRemaining,
+    registerFailedLogin,
+    clearFailedLogins,
+} from "../helpers/lockout";
+import {
+    generateTotpSecret,
+    verifyTotp,
+    buildOtpauthUri,
+    generateRecoveryCodes,
+    hashRecoveryCode,
+} from "../helpers/totp";
+import {
+    ACCESS_TOKEN_TTL,
+    signAccessToken,
+    verifyAccessToken,
+    signActionToken,
+    verifyActionToken,
+    consumeActionToken,
+    startSession,
+    rotateRefreshToken,
+    revokeRefreshToken,
+    revokeAccessToken,
+    revokeSession,
+    revokeAllSessions,
+    SessionInfo,
+} from "../helpers/token";
+import AdminAuth from "../middleware/auth/AdminAuth";
+import { requireLogin, forbidImpersonation } from "../middleware/auth/RoleAuth";
+import {
+    requireSelfOrManager,
+    accountOwner,
+} from "../middleware/auth/SelfAuth";
+import limiter, { loginLimiter } from "../middleware/RateLimiter";
 
 const AuthRouter = Router();
 
 const AccountExisted = new BaseError("Account already exists", 400);
-const PasswordTooShort = new BaseError("Password too short", 400);
 const PasswordsNotMatch = new BaseError("Passwords do not match", 400);
 const EmailNotValid = new BaseError("Email not valid", 400);
 const TOSNotAccepted = new BaseError("Please accept TOS", 400);
-const TokenExpired = new BaseError("Token has expired", 401);
 const Unauthorized = new BaseError("Unauthorized", 401);
+const InvalidToken = new BaseError("Invalid token", 401);
+const PasswordManagedByIdp = new BaseError(
+    "The password of this account is managed by the identity provider",
+    400
+);
+
+const VERIFY_EMAIL_RESEND_INTERVAL = 60 * 1000; // 1 minute, in ms
 
 /**
  * @swagger
@@ -105,11 +173,24 @@ AuthRouter.get("/", (req: Request, res: Response) => {
  *                   example: error
  *                 message:
  *                   type: string
+ *                   example: Password does not meet the policy
+ *                 errors:
+ *                   type: array
+ *                   description: Broken password rules, when the password was rejected
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       rule:
+ *                         type: string
+ *                         example: uppercase
+ *                       message:
+ *                         type: string
+ *                         example: Password must contain an uppercase letter
  */
 AuthRouter.post("/register", (req: Request, res: Response) => {
     const { name, email, password, confirmPassword, confirmTOS } = req.body;
     AccountModel.findOne({ email })
-        .then((account) => {
+        .then(async (account) => {
             if (account) {
                 throw AccountExisted;
             }
@@ -126,33 +207,21 @@ AuthRouter.post("/register", (req: Request, res: Response) => {
                 throw EmailNotValid;
             }
 
-            if (password.length < 8) {
-                throw PasswordTooShort;
-            }
+            await validatePassword(password);
 
-            const JWT_SECRET = process.env.JWT_SECRET;
+            const created = await AccountModel.create({
+                email,
+                password: await hash(password, 10),
+                name,
+                role: "user",
+                isVerified: process.env.DEBUG,
+                isActive: process.env.DEBUG,
+                isFirstTime: false,
+            });
 
-            if (!JWT_SECRET) {
-                throw new Error("JWT_SECRET is not defined");
+            if (!created.isVerified) {
+                await sendVerificationEmail(created);
             }
-
-            hash(password, 10).then((hashPassword) => {
-                AccountModel.findOne({ email }).then((account) => {
-                    if (account) {
-                        throw AccountExisted;
-                    }
-                    AccountModel.create({
-                        email,
-                        password: hashPassword,
-                        name,
-                        role: "user",
-                        avatarPath: null,
-                        isVerified: process.env.DEBUG,
-                        isActive: process.env.DEBUG,
-                        isFirstTime: true,
-                    });
-                });
-            });
         })
         .then(() => {
             res.json({
@@ -163,21 +232,278 @@ AuthRouter.post("/register", (req: Request, res: Response) => {
         .catch((err) => handleError(err, res));
 });
 
+interface LoginData {
+    token?: string;
+    refreshToken?: string;
+    expiresIn?: number;
+    mustChangePassword?: boolean;
+    mustEnrollTwoFactor?: boolean;
+    twoFactorRequired?: boolean;
+    challengeToken?: string;
+    recoveryCodes?: string[];
+}
+
 interface LoginResponse {
     result: string;
     message: string;
-    data?: {
-        token: string;
-    };
+    data?: LoginData;
 }
 
-const AccountNotFound = new BaseError("Account not found", 404);
+// Unknown email and wrong password answer the same so logins cannot be used
+// to find out which accounts exist.
+const InvalidCredentials = new BaseError("Invalid email or password", 401);
 const AccountForbidden = new BaseError(
     "Account not verified or Account is disabled",
     403
 );
 const WrongPassword = new BaseError("Wrong password", 401);
 
+const LOGIN_CHALLENGE_TTL = 5 * 60; // 5 minutes, in seconds
+
+let dummyPasswordHash: Promise<string> | null = null;
+
+// Compared against when the email is unknown so that both paths cost a
+// bcrypt round and take about as long.
+function getDummyPasswordHash(): Promise<string> {
+    if (!dummyPasswordHash) {
+        dummyPasswordHash = hash(randomBytes(16).toString("hex"), 10);
+    }
+    return dummyPasswordHash;
+}
+
+function accountLocked(res: Response, remaining: number): BaseError {
+    res.set("Retry-After", Math.ceil(remaining / 1000).toString());
+    return new BaseError(
+        "Too many failed login attempts, try again later",
+        429
+    );
+}
+
+function getSessionInfo(req: Request): SessionInfo {
+    return { userAgent: req.get("user-agent"), ip: req.ip };
+}
+
+/**
+ * The restricted login of an account that still owes a password change or a
+ * mandatory 2FA enrollment: an access token good for that one step, and no
+ * refresh token. Null when the account owes nothing. Logins through the
+ * identity provider skip the password change, the IdP owns the password.
+ */
+function restrictedLogin(
+    account: HydratedDocument<IAccount>,
+    viaIdentityProvider: boolean
+): { message: string; data: LoginData } | null {
+    const payload = {
+        id: account.id,
+        email: account.email,
+        name: account.name,
+        role: account.role,
+    };
+
+    if (account.isFirstTime && !viaIdentityProvider) {
+        return {
+            message: "Password change required",
+            data: {
+                token: signAccessToken({
+                    ...payload,
+                    restriction: "change-password",
+                }),
+                expiresIn: ACCESS_TOKEN_TTL,
+                mustChangePassword: true,
+            },
+        };
+    }
+
+    if (isTwoFactorRequired(account.role) && !account.totpEnabled) {
+        return {
+            message: "Two-factor enrollment required",
+            data: {
+                token: signAccessToken({
+                    ...payload,
+                    restriction: "enroll-2fa",
+                }),
+                expiresIn: ACCESS_TOKEN_TTL,
+                mustEnrollTwoFactor: true,
+            },
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Hand out the tokens for an account whose credentials (and second factor,
+ * if enrolled) were just checked, restricted ones while it still owes a step,
+ * see restrictedLogin.
+ */
+async function issueLoginTokens(
+    account: HydratedDocument<IAccount>,
+    info: SessionInfo,
+    viaIdentityProvider = false
+): Promise<{ message: string; data: LoginData }> {
+    await ensureRolesLoaded();
+
+    const restricted = restrictedLogin(account, viaIdentityProvider);
+    if (restricted) {
+        return restricted;
+    }
+
+    const { refreshToken, family } = await startSession(account.id, info);
+    return {
+        message: "Login success",
+        data: {
+            token: signAccessToken({
+                id: account.id,
+                email: account.email,
+                name: account.name,
+                role: account.role,
+                sid: family,
+            }),
+            refreshToken,
+            expiresIn: ACCESS_TOKEN_TTL,
+        },
+    };
+}
+
+const VerificationTooSoon = new BaseError(
+    "Verification email already sent, please wait before requesting another",
+    429
+);
+
+/**
+ * @swagger
+ * /auth/verify-email:
+ *   post:
+ *     summary: Verify an email address
+ *     description: Mark the account as verified using the token sent by email on registration.
+ *     tags:
+ *       - Auth
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *     responses:
+ *       200:
+ *         description: Email verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Email verified
+ *       401:
+ *         description: Invalid or expired token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: error
+ *                 message:
+ *                   type: string
+ *                   example: Invalid token
+ */
+AuthRouter.post("/verify-email", limiter, (req: Request, res: Response) => {
+    const { token } = req.body;
+
+    if (!token) {
+        return handleError(InvalidToken, res);
+    }
+
+    Promise.resolve()
+        .then(async () => {
+            const payload = verifyActionToken(token, "verify-email");
+            const account = await AccountModel.findById(payload.sub);
+            if (!account) {
+                throw InvalidToken;
+            }
+
+            account.isVerified = true;
+            await account.save();
+
+            res.json({
+                result: "success",
+                message: "Email verified",
+            });
+        })
+        .catch((err) => handleError(err, res));
+});
+
+/**
+ * @swagger
+ * /auth/resend-verification:
+ *   post:
+ *     summary: Resend the verification email
+ *     description: Send a new verification link to an unverified account. Requests for the same account are throttled to one per minute. The response does not reveal whether the account exists.
+ *     tags:
+ *       - Auth
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 example: johndoe@example.com
+ *     responses:
+ *       200:
+ *         description: Verification email sent if the account needs one
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: If the account exists and is not verified, a verification email has been sent
+ *       429:
+ *         description: Too many requests
+ */
+AuthRouter.post(
+    "/resend-verification",
+    limiter,
+    (req: Request, res: Response) => {
+        const { email } = req.body;
+
+        AccountModel.findOne({ email })
+            .then(async (account) => {
+                if (account && !account.isVerified) {
+                    const sentAt = account.verificationSentAt?.getTime() ?? 0;
+                    if (Date.now() - sentAt < VERIFY_EMAIL_RESEND_INTERVAL) {
+                        throw VerificationTooSoon;
+                    }
+
+                    await sendVerificationEmail(account);
+                }
+
+                res.json({
+                    result: "success",
+                    message:
+                        "If the account exists and is not verified, a verification email has been sent",
+                });
+            })
+            .catch((err) => handleError(err, res));
+    }
+);
+
 /**
  * @swagger
  * /auth/login:
@@ -219,6 +545,27 @@ const WrongPassword = new BaseError("Wrong password", 401);
  *                     token:
  *                       type: string
  *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                     refreshToken:
+ *                       type: string
+ *                       example: 3q2-7wX1mY0Xb3lWb4JHq8u9Yp1T2kqvN0Z...
+ *                     expiresIn:
+ *                       type: integer
+ *                       example: 900
+ *                     mustChangePassword:
+ *                       type: boolean
+ *                       description: Set on a first login. The token only allows /auth/change-password and no refresh token is issued.
+ *                       example: false
+ *                     mustEnrollTwoFactor:
+ *                       type: boolean
+ *                       description: Set for Admin and manager roles without two-factor authentication. The token only allows /auth/2fa/setup and /auth/2fa/enable.
+ *                       example: false
+ *                     twoFactorRequired:
+ *                       type: boolean
+ *                       description: Set when the account uses two-factor authentication. No token is issued, send the challenge token and a code to /auth/login/2fa.
+ *                       example: false
+ *                     challengeToken:
+ *                       type: string
+ *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
  *       400:
  *         description: Bad request
  *         content:
@@ -232,7 +579,7 @@ const WrongPassword = new BaseError("Wrong password", 401);
  *                 message:
  *                   type: string
  *       401:
- *         description: Unauthorized, wrong password
+ *         description: Unauthorized, unknown email, wrong password, or account temporarily locked after repeated failures
  *         content:
  *           application/json:
  *             schema:
@@ -243,7 +590,7 @@ const WrongPassword = new BaseError("Wrong password", 401);
  *                   example: error
  *                 message:
  *                   type: string
- *                   example: Wrong password
+ *                   example: Invalid email or password
  *       403:
  *         description: Forbidden, account not verified or disabled
  *         content:
@@ -257,85 +604,114 @@ const WrongPassword = new BaseError("Wrong password", 401);
  *                 message:
  *                   type: string
  *                   example: Account not verified or Account is disabled
- *       404:
- *         description: Account not found
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 result:
- *                   type: string
- *                   example: error
- *                 message:
- *                   type: string
- *                   example: Account not found
  */
-AuthRouter.post("/login", (req: Request, res: Response) => {
+AuthRouter.post("/login", loginLimiter, (req: Request, res: Response) => {
     const { email, password } = req.body;
 
     AccountModel.findOne({ email })
         .then(async (account) => {
-            if (!account) {
-                throw AccountNotFound;
-            }
-
-            if (!account.isVerified) {
-                throw AccountForbidden;
+            if (!account || !account.password) {
+                await compare(String(password), await getDummyPasswordHash());
+                throw InvalidCredentials;
             }
 
-            if (account.password === undefined || account.password === null) {
-                throw WrongPassword;
+            // a locked account answers like a wrong password, a 429 would
+            // tell which emails have an account
+            if (getLockRemaining(account) > 0) {
+                await compare(String(password), await getDummyPasswordHash());
+                throw InvalidCredentials;
             }
 
-            const matchPassword = await compare(password, account.password);
+            const matchPassword = await compare(
+                String(password),
+                account.password
+            );
             if (!matchPassword) {
-                throw WrongPassword;
+                await registerFailedLogin(account);
+                throw InvalidCredentials;
             }
 
-            if (!account.isActive) {
+            // only reveal the account state to someone holding its password
+            if (!account.isVerified || !account.isActive) {
                 throw AccountForbidden;
             }
 
-            const JWT_SECRET = process.env.JWT_SECRET;
+            if (!account.totpEnabled) {
+                await clearFailedLogins(account);
+            }
 
-            if (!JWT_SECRET) {
-                throw new Error("JWT_SECRET is not defined");
+            if (account.totpEnabled) {
+                res.json({
+                    result: "success",
+                    message: "Two-factor code required",
+                    data: {
+                        twoFactorRequired: true,
+                        challengeToken: signActionToken(
+                            "login-2fa",
+                            account.id,
+                            LOGIN_CHALLENGE_TTL
+                        ),
+                    },
+                } as LoginResponse);
+                return;
             }
 
-            jwt.sign(
-                {
-                    email: account.email,
-                    name: account.name,
-                    role: account.role,
-                },
-                JWT_SECRET,
-                {
-                    expiresIn: "1d",
-                },
-                (err: Error | null, token: string | undefined) => {
-                    if (err) throw new Error(err.message);
-                    res.json({
-                        result: "success",
-                        message: "Login success",
-                        data: {
-                            token,
-                        },
-                    } as LoginResponse);
-                }
+            const { message, data } = await issueLoginTokens(
+                account,
+                getSessionInfo(req)
             );
+            res.json({
+                result: "success",
+                message,
+                data,
+            } as LoginResponse);
         })
         .catch((err) => handleError(err, res));
 });
 
-const InvalidToken = new BaseError("Invalid token", 401);
+const WrongTwoFactorCode = new BaseError("Wrong two-factor code", 401);
+
+/**
+ * Check a TOTP code, or burn a recovery code, for an account with 2FA
+ * enabled. The document is updated but not saved.
+ */
+async function checkSecondFactor(
+    account: HydratedDocument<IAccount>,
+    code?: string,
+    recoveryCode?: string
+) {
+    if (code) {
+        const step = verifyTotp(
+            account.totpSecret!,
+            String(code),
+            account.totpLastStep
+        );
+        if (step === null) {
+            throw WrongTwoFactorCode;
+        }
+        account.totpLastStep = step;
+        return;
+    }
+
+    if (recoveryCode) {
+        const hashed = hashRecoveryCode(String(recoveryCode));
+        const index = account.recoveryCodes.indexOf(hashed);
+        if (index === -1) {
+            throw WrongTwoFactorCode;
+        }
+        account.recoveryCodes.splice(index, 1);
+        return;
+    }
+
+    throw WrongTwoFactorCode;
+}
 
 /**
  * @swagger
- * /auth/revoke:
+ * /auth/login/2fa:
  *   post:
- *     summary: Revoke a token
- *     description: Revoke the provided JWT token.
+ *     summary: Complete a login with a second factor
+ *     description: Second step of /auth/login for accounts with two-factor authentication. Send the challenge token from the first step with either a TOTP code or one of the recovery codes.
  *     tags:
  *       - Auth
  *     requestBody:
@@ -345,25 +721,20 @@ const InvalidToken = new BaseError("Invalid token", 401);
  *           schema:
  *             type: object
  *             properties:
- *               token:
+ *               challengeToken:
  *                 type: string
  *                 example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *               recoveryCode:
+ *                 type: string
+ *                 example: 3f9a1-0c2d7
  *     responses:
  *       200:
- *         description: Token revoked successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 result:
- *                   type: string
- *                   example: success
- *                 message:
- *                   type: string
- *                   example: Token revoked
+ *         description: Login success, same payload as /auth/login
  *       401:
- *         description: Unauthorized, invalid token
+ *         description: Invalid challenge token or wrong code
  *         content:
  *           application/json:
  *             schema:
@@ -374,44 +745,1791 @@ const InvalidToken = new BaseError("Invalid token", 401);
  *                   example: error
  *                 message:
  *                   type: string
- *                   example: Invalid token
+ *                   example: Wrong two-factor code
  */
-AuthRouter.post("/revoke", (req: Request, res: Response) => {
-    const { token } = req.body;
+AuthRouter.post("/login/2fa", loginLimiter, (req: Request, res: Response) => {
+    const { challengeToken, code, recoveryCode } = req.body;
 
-    if (!token) {
+    if (!challengeToken) {
         return handleError(InvalidToken, res);
     }
 
-    const JWT_SECRET = process.env.JWT_SECRET;
+    Promise.resolve()
+        .then(async () => {
+            const payload = verifyActionToken(challengeToken, "login-2fa");
+            const account = await AccountModel.findById(payload.sub);
+            if (!account || !account.totpEnabled) {
+                throw InvalidToken;
+            }
+
+            if (!account.isVerified || !account.isActive) {
+                throw AccountForbidden;
+            }
+
+            const remaining = getLockRemaining(account);
+            if (remaining > 0) {
+                throw accountLocked(res, remaining);
+            }
+
+            try {
+                await checkSecondFactor(account, code, recoveryCode);
+            } catch (err) {
+                await registerFailedLogin(account);
+                throw err;
+            }
+            await consumeActionToken(challengeToken, "login-2fa");
+            await clearFailedLogins(account);
+            await account.save();
+
+            const { message, data } = await issueLoginTokens(
+                account,
+                getSessionInfo(req)
+            );
+            res.json({
+                result: "success",
+                message,
+                data,
+            } as LoginResponse);
+        })
+        .catch((err) => handleError(err, res));
+});
+
+const OidcNoRole = new BaseError(
+    "Your identity provider groups do not give access to this application",
+    403
+);
+const OidcEmailTaken = new BaseError(
+    "An account already uses this email, sign in with its password and link it from /auth/oidc/link",
+    400
+);
+const OidcAdminForbidden = new BaseError(
+    "Admin accounts cannot sign in through the identity provider",
+    403
+);
+const OidcAlreadyLinked = new BaseError(
+    "Account or identity already linked to the identity provider",
+    400
+);
+
+const OIDC_STATE_COOKIE = "oidc_state";
+const OIDC_STATE_COOKIE_MAX_AGE = 10 * 60 * 1000; // 10 minutes, in ms
+
+// Keep the state of a login in the browser that started it, see /oidc/callback.
+function setOidcStateCookie(req: Request, res: Response, state: string) {
+    res.cookie(OIDC_STATE_COOKIE, state, {
+        httpOnly: true,
+        secure: req.secure,
+        sameSite: "lax",
+        path: "/auth/oidc",
+        maxAge: OIDC_STATE_COOKIE_MAX_AGE,
+    });
+}
+
+function readOidcStateCookie(req: Request): string | undefined {
+    const cookie = (req.headers.cookie || "")
+        .split(";")
+        .map((part) => part.trim())
+        .find((part) => part.startsWith(`${OIDC_STATE_COOKIE}=`));
+    return cookie
+        ? decodeURIComponent(cookie.slice(OIDC_STATE_COOKIE.length + 1))
+        : undefined;
+}
+
+/**
+ * Find the account of an IdP user, or create one on first login. An existing
+ * account is only linked when its holder started the login from
+ * /auth/oidc/link, never just because the email matches; it keeps its role,
+ * while the role of accounts the IdP created follows the IdP groups on every
+ * login. Linked accounts lose their local password, the IdP is the only way
+ * in from then on. Admin accounts are never linked nor signed in this way.
+ */
+async function provisionOidcAccount(
+    identity: OidcIdentity,
+    issuer: string,
+    linkAccount?: string
+): Promise<HydratedDocument<IAccount>> {
+    const role = mapGroupsToRole(identity.groups);
+
+    let account = await AccountModel.findOne({
+        oidcIssuer: issuer,
+        oidcSubject: identity.subject,
+    });
 
-    if (!JWT_SECRET) {
-        throw new Error("JWT_SECRET is not defined");
+    // the identity already belongs to another account
+    if (account && linkAccount && account.id !== linkAccount) {
+        throw OidcAlreadyLinked;
     }
 
-    jwt.verify(token, JWT_SECRET, (err: Error | null, decoded: any) => {
-        if (err) {
-            return handleError(InvalidToken, res);
+    if (!account && linkAccount) {
+        account = await AccountModel.findById(linkAccount);
+        if (!account) {
+            throw Unauthorized;
+        }
+        if (account.oidcSubject) {
+            throw OidcAlreadyLinked;
+        }
+        if (account.role === Role.Admin) {
+            throw OidcAdminForbidden;
         }
 
-        const currentTime = Math.floor(Date.now() / 1000);
-        if (decoded.exp < currentTime) {
-            return handleError(new BaseError("Token has expired", 401), res);
+        account.oidcIssuer = issuer;
+        account.oidcSubject = identity.subject;
+        account.password = undefined;
+        account.passwordHistory = [];
+    }
+
+    if (!account) {
+        if (await AccountModel.exists({ email: identity.email })) {
+            throw OidcEmailTaken;
+        }
+        if (!role) {
+            throw OidcNoRole;
         }
 
-        res.json({
-            result: "success",
-            message: "Token revoked",
+        account = new AccountModel({
+            email: identity.email,
+            name: identity.name,
+            role,
+            roleFromIdp: true,
+            isFirstTime: false,
+            oidcIssuer: issuer,
+            oidcSubject: identity.subject,
         });
-    });
-});
+    }
 
-/**
- * @swagger
- * /auth/check-token:
- *   post:
- *     summary: Check token expiry
- *     description: Check if the provided JWT token is expired.
+    if (account.role === Role.Admin) {
+        throw OidcAdminForbidden;
+    }
+
+    if (!account.isActive) {
+        throw AccountForbidden;
+    }
+
+    const previousRole = account.isNew ? undefined : account.role;
+    if (account.roleFromIdp) {
+        if (!role) {
+            throw OidcNoRole;
+        }
+        account.role = role;
+    }
+    account.isVerified = true;
+    await account.save();
+
+    if (previousRole !== account.role) {
+        await RoleChangeModel.create({
+            account: account._id,
+            previousRole,
+            newRole: account.role,
+            reason: "Synced from identity provider groups",
+            changedBy: account._id,
+        });
+    }
+
+    return account;
+}
+
+/**
+ * @swagger
+ * /auth/oidc/authorize:
+ *   get:
+ *     summary: Start a login with the identity provider
+ *     description: Return the identity provider URL to send the browser to. After signing in, the provider redirects to the configured redirect URI with a code and a state, to be posted to /auth/oidc/callback from the same browser, which keeps the state in an httpOnly cookie.
+ *     tags:
+ *       - Auth
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: Authorization URL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     url:
+ *                       type: string
+ *                       example: https://idp.example.com/authorize?response_type=code&client_id=coffeeshop&state=...
+ *       404:
+ *         description: OIDC login is not configured
+ */
+AuthRouter.get("/oidc/authorize", limiter, (req: Request, res: Response) => {
+    createAuthorizationUrl()
+        .then(({ url, state }) => {
+            setOidcStateCookie(req, res, state);
+            res.json({
+                result: "success",
+                data: {
+                    url,
+                },
+            });
+        })
+        .catch((err) => handleError(err, res));
+});
+
+/**
+ * @swagger
+ * /auth/oidc/link:
+ *   post:
+ *     summary: Link your account to the identity provider
+ *     description: Same as /auth/oidc/authorize, but the identity the provider returns is linked to the logged in account when the callback completes, whatever its email. The account loses its local password and keeps its role. Admin accounts cannot be linked.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Authorization URL, as for /auth/oidc/authorize
+ *       400:
+ *         description: Account already linked
+ *       403:
+ *         description: Admin account, or impersonating
+ *       404:
+ *         description: OIDC login is not configured
+ */
+AuthRouter.post(
+    "/oidc/link",
+    limiter,
+    requireLogin(),
+    forbidImpersonation,
+    (req: Request, res: Response) => {
+        const { user } = req.body;
+
+        AccountModel.findById(user.id)
+            .then(async (account) => {
+                if (!account) {
+                    throw Unauthorized;
+                }
+                if (account.oidcSubject) {
+                    throw OidcAlreadyLinked;
+                }
+                if (account.role === Role.Admin) {
+                    throw OidcAdminForbidden;
+                }
+
+                const { url, state } = await createAuthorizationUrl(account.id);
+                setOidcStateCookie(req, res, state);
+                res.json({
+                    result: "success",
+                    data: {
+                        url,
+                    },
+                });
+            })
+            .catch((err) => handleError(err, res));
+    }
+);
+
+/**
+ * @swagger
+ * /auth/oidc/callback:
+ *   post:
+ *     summary: Finish a login with the identity provider
+ *     description: Exchange the code returned by the identity provider for our tokens. The request must come from the browser that started the login, with the cookie set by /auth/oidc/authorize or /auth/oidc/link. Accounts are created on first login, with a role following the identity provider groups; an existing account with the same email has to be linked from /auth/oidc/link first. Accounts using two-factor authentication get a challenge as on /auth/login, and roles that require it must enroll first.
+ *     tags:
+ *       - Auth
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - state
+ *             properties:
+ *               code:
+ *                 type: string
+ *               state:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login success, same payload as /auth/login
+ *       400:
+ *         description: Unknown, expired or foreign state, email already used by an unlinked account, or account already linked
+ *       401:
+ *         description: The identity provider response could not be verified
+ *       403:
+ *         description: Account disabled, Admin account, or no group mapped to a role
+ *       404:
+ *         description: OIDC login is not configured
+ */
+AuthRouter.post(
+    "/oidc/callback",
+    loginLimiter,
+    (req: Request, res: Response) => {
+        const { code, state } = req.body;
+
+        if (!code || !state) {
+            return handleError(InvalidToken, res);
+        }
+
+        const browserState = readOidcStateCookie(req);
+        res.clearCookie(OIDC_STATE_COOKIE, { path: "/auth/oidc" });
+
+        completeAuthorization(String(code), String(state), browserState)
+            .then(async ({ identity, linkAccount }) => {
+                const account = await provisionOidcAccount(
+                    identity,
+                    getOidcConfig()!.issuer,
+                    linkAccount
+                );
+
+                if (account.totpEnabled) {
+                    res.json({
+                        result: "success",
+                        message: "Two-factor code required",
+                        data: {
+                            twoFactorRequired: true,
+                            challengeToken: signActionToken(
+                                "login-2fa",
+                                account.id,
+                                LOGIN_CHALLENGE_TTL
+                            ),
+                        },
+                    } as LoginResponse);
+                    return;
+                }
+
+                const { message, data } = await issueLoginTokens(
+                    account,
+                    getSessionInfo(req),
+                    true
+                );
+                res.json({
+                    result: "success",
+                    message,
+                    data,
+                } as LoginResponse);
+            })
+            .catch((err) => handleError(err, res));
+    }
+);
+
+const AccountNotFound = new BaseError("Account not found", 404);
+
+/**
+ * @swagger
+ * /auth/refresh:
+ *   post:
+ *     summary: Refresh an access token
+ *     description: Exchange a refresh token for a new access token. The refresh token is rotated, the one sent in the request cannot be used again. An account that meanwhile owes a password change or a mandatory 2FA enrollment gets the same restricted token as on login instead, and its session ends.
+ *     tags:
+ *       - Auth
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *                 example: 3q2-7wX1mY0Xb3lWb4JHq8u9Yp1T2kqvN0Z...
+ *     responses:
+ *       200:
+ *         description: Token refreshed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Token refreshed
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                     refreshToken:
+ *                       type: string
+ *                       example: 3q2-7wX1mY0Xb3lWb4JHq8u9Yp1T2kqvN0Z...
+ *                     expiresIn:
+ *                       type: integer
+ *                       example: 900
+ *                     mustChangePassword:
+ *                       type: boolean
+ *                       description: Only a restricted token was returned, the password has to be changed first
+ *                     mustEnrollTwoFactor:
+ *                       type: boolean
+ *                       description: Only a restricted token was returned, 2FA has to be enrolled first
+ *       401:
+ *         description: Invalid, expired or revoked refresh token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: error
+ *                 message:
+ *                   type: string
+ *                   example: Invalid token
+ *       403:
+ *         description: Forbidden, account not verified or disabled
+ */
+AuthRouter.post("/refresh", (req: Request, res: Response) => {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+        return handleError(InvalidToken, res);
+    }
+
+    rotateRefreshToken(refreshToken, getSessionInfo(req))
+        .then(async (rotated) => {
+            const account = await AccountModel.findById(rotated.accountId);
+            if (!account) {
+                throw InvalidToken;
+            }
+
+            if (!account.isVerified || !account.isActive) {
+                await revokeRefreshToken(rotated.refreshToken);
+                throw AccountForbidden;
+            }
+
+            // a session opened before the account owed a password change or
+            // a 2FA enrollment ends here, like a login it only gets the
+            // restricted token for that step
+            await ensureRolesLoaded();
+            const restricted = restrictedLogin(
+                account,
+                Boolean(account.oidcSubject)
+            );
+            if (restricted) {
+                await revokeRefreshToken(rotated.refreshToken);
+                res.json({
+                    result: "success",
+                    ...restricted,
+                } as LoginResponse);
+                return;
+            }
+
+            const token = signAccessToken({
+                id: account.id,
+                email: account.email,
+                name: account.name,
+                role: account.role,
+                sid: rotated.family,
+            });
+
+            res.json({
+                result: "success",
+                message: "Token refreshed",
+                data: {
+                    token,
+                    refreshToken: rotated.refreshToken,
+                    expiresIn: ACCESS_TOKEN_TTL,
+                },
+            } as LoginResponse);
+        })
+        .catch((err) => handleError(err, res));
+});
+
+/**
+ * @swagger
+ * /auth/revoke:
+ *   post:
+ *     summary: Revoke a token
+ *     description: Log out the session the provided access token or refresh token belongs to. Both the access token and every refresh token of that session stop working.
+ *     tags:
+ *       - Auth
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *               refreshToken:
+ *                 type: string
+ *                 example: 3q2-7wX1mY0Xb3lWb4JHq8u9Yp1T2kqvN0Z...
+ *     responses:
+ *       200:
+ *         description: Token revoked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Token revoked
+ *       401:
+ *         description: Unauthorized, invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: error
+ *                 message:
+ *                   type: string
+ *                   example: Invalid token
+ */
+AuthRouter.post("/revoke", (req: Request, res: Response) => {
+    const { token, refreshToken } = req.body;
+
+    if (!token && !refreshToken) {
+        return handleError(InvalidToken, res);
+    }
+
+    const revoke = token
+        ? verifyAccessToken(token).then((decoded) => revokeAccessToken(decoded))
+        : revokeRefreshToken(refreshToken);
+
+    revoke
+        .then(() => {
+            res.json({
+                result: "success",
+                message: "Token revoked",
+            });
+        })
+        .catch((err) => handleError(err, res));
+});
+
+/**
+ * @swagger
+ * /auth/revoke-all:
+ *   post:
+ *     summary: Force sign-out of an account
+ *     description: Revoke every session of the given account. Users can sign their own account out everywhere, Admin can do it for any account.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 example: 671a2b3c4d5e6f7a8b9c0d1e
+ *     responses:
+ *       200:
+ *         description: Sessions revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Sessions revoked
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     revoked:
+ *                       type: integer
+ *                       example: 2
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the account owner nor Admin
+ *       404:
+ *         description: Account not found
+ */
+AuthRouter.post(
+    "/revoke-all",
+    requireSelfOrManager(
+        accountOwner((req) => req.body.id),
+        Permission.MANAGE_ALL
+    ),
+    forbidImpersonation,
+    (req: Request, res: Response) => {
+        const { id } = req.body;
+
+        revokeAllSessions(id)
+            .then((revoked) => {
+                res.json({
+                    result: "success",
+                    message: "Sessions revoked",
+                    data: {
+                        revoked,
+                    },
+                });
+            })
+            .catch((err) => handleError(err, res));
+    }
+);
+
+const SessionNotFound = new BaseError("Session not found", 404);
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     description: List the open sessions (one per login) of the current user, with the device and address they were last used from. Admin can list the sessions of any account with the accountId query parameter.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: accountId
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Admin only, account to list the sessions of
+ *     responses:
+ *       200:
+ *         description: Active sessions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 sessions:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                         example: 0f8e2c1a-4b6d-4e3f-9a7b-1c2d3e4f5a6b
+ *                       userAgent:
+ *                         type: string
+ *                         example: Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X)
+ *                       ip:
+ *                         type: string
+ *                         example: 192.168.1.20
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                       lastSeenAt:
+ *                         type: string
+ *                         format: date-time
+ *                       current:
+ *                         type: boolean
+ *                         example: true
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Only Admin can list the sessions of another account
+ */
+AuthRouter.get(
+    "/sessions",
+    limiter,
+    requireLogin(),
+    async (req: Request, res: Response) => {
+        const { user } = req.body;
+        const accountId =
+            typeof req.query.accountId === "string"
+                ? req.query.accountId
+                : user.id;
+
+        try {
+            if (accountId !== user.id && user.role !== Role.Admin) {
+                res.status(403).json({
+                    error: "Insufficient role permissions",
+                });
+                return;
+            }
+
+            const sessions = await SessionModel.find({
+                account: accountId,
+                revokedAt: { $exists: false },
+                expiresAt: { $gt: new Date() },
+            })
+                .sort({ lastSeenAt: -1 })
+                .exec();
+
+            res.json({
+                result: "success",
+                sessions: sessions.map((session) => ({
+                    id: session.sid,
+                    userAgent: session.userAgent ?? null,
+                    ip: session.ip ?? null,
+                    createdAt: session.createdAt,
+                    lastSeenAt: session.lastSeenAt,
+                    current: session.sid === user.sid,
+                })),
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /auth/sessions/others:
+ *   delete:
+ *     summary: Sign out all other sessions
+ *     description: Revoke every session of the current user except the one making the request.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Other sessions revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Sessions revoked
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     revoked:
+ *                       type: integer
+ *                       example: 2
+ *       401:
+ *         description: Unauthorized
+ */
+AuthRouter.delete(
+    "/sessions/others",
+    limiter,
+    requireLogin(),
+    forbidImpersonation,
+    (req: Request, res: Response) => {
+        const { user } = req.body;
+
+        revokeAllSessions(user.id, user.sid)
+            .then((revoked) => {
+                res.json({
+                    result: "success",
+                    message: "Sessions revoked",
+                    data: {
+                        revoked,
+                    },
+                });
+            })
+            .catch((err) => handleError(err, res));
+    }
+);
+
+/**
+ * @swagger
+ * /auth/sessions/{id}:
+ *   delete:
+ *     summary: Revoke a session
+ *     description: Sign out one session of the current user. Admin can revoke a session of any account, use /auth/revoke-all to sign a whole account out.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Session not found
+ */
+AuthRouter.delete(
+    "/sessions/:id",
+    limiter,
+    requireLogin(),
+    forbidImpersonation,
+    (req: Request, res: Response) => {
+        const { user } = req.body;
+
+        SessionModel.findOne({
+            sid: req.params.id,
+            revokedAt: { $exists: false },
+        })
+            .then(async (session) => {
+                // sessions of other accounts are reported as missing
+                if (
+                    !session ||
+                    (session.account.toString() !== user.id &&
+                        user.role !== Role.Admin)
+                ) {
+                    throw SessionNotFound;
+                }
+
+                await revokeSession(session.sid);
+                res.json({
+                    result: "success",
+                    message: "Session revoked",
+                });
+            })
+            .catch((err) => handleError(err, res));
+    }
+);
+
+/**
+ * @swagger
+ * /auth/lockouts:
+ *   get:
+ *     summary: List login lockouts
+ *     description: List accounts that have failed login attempts or are currently locked. Admin only.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Accounts with failed login attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                         example: 671a2b3c4d5e6f7a8b9c0d1e
+ *                       email:
+ *                         type: string
+ *                         example: johndoe@example.com
+ *                       failedLoginAttempts:
+ *                         type: integer
+ *                         example: 10
+ *                       lastFailedLoginAt:
+ *                         type: string
+ *                         format: date-time
+ *                       lockedUntil:
+ *                         type: string
+ *                         format: date-time
+ *                       isLocked:
+ *                         type: boolean
+ *                         example: true
+ *       401:
+ *         description: Unauthorized
+ */
+AuthRouter.get("/lockouts", AdminAuth, (req: Request, res: Response) => {
+    AccountModel.find({ failedLoginAttempts: { $gt: 0 } })
+        .sort({ lastFailedLoginAt: -1 })
+        .then((accounts) => {
+            res.json({
+                result: "success",
+                data: accounts.map((account) => ({
+                    id: account.id,
+                    email: account.email,
+                    failedLoginAttempts: account.failedLoginAttempts,
+                    lastFailedLoginAt: account.lastFailedLoginAt,
+                    lockedUntil: account.lockedUntil,
+                    isLocked: getLockRemaining(account) > 0,
+                })),
+            });
+        })
+        .catch((err) => handleError(err, res));
+});
+
+/**
+ * @swagger
+ * /auth/lockouts/clear:
+ *   post:
+ *     summary: Clear a login lockout
+ *     description: Reset the failed login counter of an account and lift its lockout. Admin only.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 example: 671a2b3c4d5e6f7a8b9c0d1e
+ *     responses:
+ *       200:
+ *         description: Lockout cleared
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Account not found
+ */
+AuthRouter.post("/lockouts/clear", AdminAuth, (req: Request, res: Response) => {
+    const { id } = req.body;
+
+    AccountModel.findById(id)
+        .then(async (account) => {
+            if (!account) {
+                throw AccountNotFound;
+            }
+
+            await clearFailedLogins(account);
+            res.json({
+                result: "success",
+                message: "Lockout cleared",
+            });
+        })
+        .catch((err) => handleError(err, res));
+});
+
+const ImpersonationReasonMissing = new BaseError(
+    "A reason is required to impersonate an account",
+    400
+);
+const ImpersonationNotAllowed = new BaseError(
+    "Admin accounts and your own account cannot be impersonated",
+    403
+);
+
+/**
+ * @swagger
+ * /auth/impersonate:
+ *   post:
+ *     summary: Impersonate an account
+ *     description: Admin only. Get a 10 minute token acting as another account, to see what its role allows. The token carries both identities, is read-only unless allowWrite is set, can never change credentials, sessions or API keys, and every request made with it is logged.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - id
+ *               - reason
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 example: 671a2b3c4d5e6f7a8b9c0d1e
+ *               reason:
+ *                 type: string
+ *                 example: Barista reports the menu is empty
+ *               allowWrite:
+ *                 type: boolean
+ *                 example: false
+ *     responses:
+ *       200:
+ *         description: Impersonation token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                     expiresIn:
+ *                       type: integer
+ *                       example: 600
+ *       400:
+ *         description: Missing reason
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Target is an Admin, yourself or disabled
+ *       404:
+ *         description: Account not found
+ */
+AuthRouter.post("/impersonate", AdminAuth, (req: Request, res: Response) => {
+    const { user, id, reason, allowWrite } = req.body;
+
+    if (typeof reason !== "string" || !reason.trim()) {
+        return handleError(ImpersonationReasonMissing, res);
+    }
+
+    AccountModel.findById(id)
+        .then(async (account) => {
+            if (!account) {
+                throw AccountNotFound;
+            }
+
+            if (account.id === user.id || account.role === Role.Admin) {
+                throw ImpersonationNotAllowed;
+            }
+
+            if (!account.isActive) {
+                throw AccountForbidden;
+            }
+
+            const data = await startImpersonation(
+                user,
+                account,
+                reason.trim(),
+                allowWrite === true
+            );
+            res.json({
+                result: "success",
+                message: `Impersonating ${account.email}`,
+                data,
+            });
+        })
+        .catch((err) => handleError(err, res));
+});
+
+/**
+ * @swagger
+ * /auth/impersonate/stop:
+ *   post:
+ *     summary: Stop impersonating
+ *     description: Revoke the impersonation token used to call this endpoint and close its log entry. Works on read-only impersonation tokens.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Impersonation stopped
+ *       400:
+ *         description: The token is not an impersonation token
+ *       401:
+ *         description: Unauthorized
+ */
+AuthRouter.post("/impersonate/stop", (req: Request, res: Response) => {
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+        return handleError(Unauthorized, res);
+    }
+
+    verifyAccessToken(authHeader.split(" ")[1])
+        .catch(() => {
+            throw Unauthorized;
+        })
+        .then(async (user) => {
+            if (!user.impersonator) {
+                throw new BaseError("Not an impersonation token", 400);
+            }
+
+            await stopImpersonation(user);
+            res.json({
+                result: "success",
+                message: "Impersonation stopped",
+            });
+        })
+        .catch((err) => handleError(err, res));
+});
+
+/**
+ * @swagger
+ * /auth/impersonations:
+ *   get:
+ *     summary: Impersonation log
+ *     description: Admin only. List impersonations, newest first, with every request made while impersonating.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: accountId
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Only impersonations of this account
+ *     responses:
+ *       200:
+ *         description: Impersonation log
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 impersonations:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       admin:
+ *                         type: object
+ *                       target:
+ *                         type: object
+ *                       reason:
+ *                         type: string
+ *                       allowWrite:
+ *                         type: boolean
+ *                       startedAt:
+ *                         type: string
+ *                       expiresAt:
+ *                         type: string
+ *                       endedAt:
+ *                         type: string
+ *                       requests:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             method:
+ *                               type: string
+ *                               example: GET
+ *                             path:
+ *                               type: string
+ *                               example: /menu/list
+ *                             status:
+ *                               type: integer
+ *                               example: 200
+ *                             at:
+ *                               type: string
+ *       401:
+ *         description: Unauthorized
+ */
+AuthRouter.get("/impersonations", AdminAuth, (req: Request, res: Response) => {
+    const { accountId } = req.query;
+
+    ImpersonationModel.find(
+        typeof accountId === "string" ? { target: accountId } : {}
+    )
+        .sort({ startedAt: -1 })
+        .limit(100)
+        .populate("admin", "name email")
+        .populate("target", "name email role")
+        .select("-jti")
+        .then((impersonations) => {
+            res.json({
+                result: "success",
+                impersonations,
+            });
+        })
+        .catch((err) => handleError(err, res));
+});
+
+const RESET_PASSWORD_TOKEN_TTL = 60 * 60; // 1 hour, in seconds
+
+/**
+ * @swagger
+ * /auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset
+ *     description: Send a single-use password reset link valid for one hour. The response does not reveal whether the account exists.
+ *     tags:
+ *       - Auth
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 example: johndoe@example.com
+ *     responses:
+ *       200:
+ *         description: Reset email sent if the account exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: If the account exists, a password reset email has been sent
+ */
+AuthRouter.post("/forgot-password", limiter, (req: Request, res: Response) => {
+    const { email } = req.body;
+
+    if (!email) {
+        return handleError(EmailNotValid, res);
+    }
+
+    AccountModel.findOne({ email })
+        .then(async (account) => {
+            // identity provider accounts have no password to reset
+            if (account && !account.oidcSubject) {
+                const token = signActionToken(
+                    "reset-password",
+                    account.id,
+                    RESET_PASSWORD_TOKEN_TTL
+                );
+                const link = buildAppLink("/reset-password", { token });
+
+                await sendMail({
+                    to: account.email,
+                    subject: "Reset your password",
+                    text: `Hi ${account.name},\n\nSomeone asked to reset the password of your account. If it was you, open the link below within the next hour. Otherwise you can ignore this email.\n\n${link}\n`,
+                });
+            }
+
+            res.json({
+                result: "success",
+                message:
+                    "If the account exists, a password reset email has been sent",
+            });
+        })
+        .catch((err) => handleError(err, res));
+});
+
+/**
+ * @swagger
+ * /auth/reset-password:
+ *   post:
+ *     summary: Reset a password
+ *     description: Set a new password using the token from the reset email. The token can only be used once and every existing session of the account is signed out.
+ *     tags:
+ *       - Auth
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *               password:
+ *                 type: string
+ *                 example: newpassword123
+ *               confirmPassword:
+ *                 type: string
+ *                 example: newpassword123
+ *     responses:
+ *       200:
+ *         description: Password reset
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Password has been reset
+ *       400:
+ *         description: Password breaks the password policy (see errors) or passwords do not match
+ *       401:
+ *         description: Invalid, expired or already used token
+ */
+AuthRouter.post("/reset-password", limiter, (req: Request, res: Response) => {
+    const { token, password, confirmPassword } = req.body;
+
+    if (!token) {
+        return handleError(InvalidToken, res);
+    }
+
+    Promise.resolve()
+        .then(async () => {
+            if (password !== confirmPassword) {
+                throw PasswordsNotMatch;
+            }
+
+            const payload = verifyActionToken(token, "reset-password");
+            const account = await AccountModel.findById(payload.sub);
+            if (!account || account.oidcSubject) {
+                throw InvalidToken;
+            }
+
+            // the link is only burnt once the password passes every rule,
+            // history included, so a rejected one can be retried with it
+            await validatePassword(password, account);
+            await consumeActionToken(token, "reset-password");
+            await setAccountPassword(account, password);
+            account.isFirstTime = false;
+            await account.save();
+            await revokeAllSessions(account.id);
+
+            res.json({
+                result: "success",
+                message: "Password has been reset",
+            });
+        })
+        .catch((err) => handleError(err, res));
+});
+
+/**
+ * @swagger
+ * /auth/change-password:
+ *   post:
+ *     summary: Change the current password
+ *     description: Change the password of the logged-in account. Every existing session is signed out and a new token pair is returned for the caller. This is the only call accepted with the restricted token handed out on a first login.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               oldPassword:
+ *                 type: string
+ *                 example: password123
+ *               password:
+ *                 type: string
+ *                 example: newpassword123
+ *               confirmPassword:
+ *                 type: string
+ *                 example: newpassword123
+ *     responses:
+ *       200:
+ *         description: Password changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Password changed
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                     refreshToken:
+ *                       type: string
+ *                       example: 3q2-7wX1mY0Xb3lWb4JHq8u9Yp1T2kqvN0Z...
+ *                     expiresIn:
+ *                       type: integer
+ *                       example: 900
+ *       400:
+ *         description: Password breaks the password policy (see errors) or passwords do not match
+ *       401:
+ *         description: Wrong old password
+ */
+AuthRouter.post(
+    "/change-password",
+    limiter,
+    requireLogin("change-password"),
+    forbidImpersonation,
+    (req: Request, res: Response) => {
+        const { user, oldPassword, password, confirmPassword } = req.body;
+
+        Promise.resolve()
+            .then(async () => {
+                if (password !== confirmPassword) {
+                    throw PasswordsNotMatch;
+                }
+
+                const account = await AccountModel.findById(user.id);
+                if (!account) {
+                    throw Unauthorized;
+                }
+
+                if (account.oidcSubject) {
+                    throw PasswordManagedByIdp;
+                }
+
+                const matchPassword = await compare(
+                    oldPassword || "",
+                    account.password
+                );
+                if (!matchPassword) {
+                    throw WrongPassword;
+                }
+
+                await validatePassword(password, account);
+                await setAccountPassword(account, password);
+                account.isFirstTime = false;
+                await account.save();
+                await revokeAllSessions(account.id);
+                await revokeAccessToken(user);
+
+                const { data } = await issueLoginTokens(
+                    account,
+                    getSessionInfo(req)
+                );
+                res.json({
+                    result: "success",
+                    message: "Password changed",
+                    data,
+                } as LoginResponse);
+            })
+            .catch((err) => handleError(err, res));
+    }
+);
+
+const TwoFactorAlreadyEnabled = new BaseError(
+    "Two-factor authentication is already enabled",
+    400
+);
+const TwoFactorNotSetUp = new BaseError(
+    "Two-factor authentication is not set up",
+    400
+);
+const TwoFactorMandatory = new BaseError(
+    "Two-factor authentication is mandatory for this role",
+    403
+);
+
+/**
+ * @swagger
+ * /auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     description: Generate a new TOTP secret for the logged-in account. It only becomes active once confirmed with /auth/2fa/enable. Accepted with the restricted token handed out to managers that still have to enroll.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       example: JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP
+ *                     otpauthUri:
+ *                       type: string
+ *                       example: otpauth://totp/Coffeeshop%20Manager%3Ajohndoe%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Coffeeshop+Manager
+ *       400:
+ *         description: Two-factor authentication is already enabled
+ */
+AuthRouter.post(
+    "/2fa/setup",
+    limiter,
+    requireLogin("enroll-2fa"),
+    forbidImpersonation,
+    (req: Request, res: Response) => {
+        const { user } = req.body;
+
+        AccountModel.findById(user.id)
+            .then(async (account) => {
+                if (!account) {
+                    throw Unauthorized;
+                }
+
+                if (account.totpEnabled) {
+                    throw TwoFactorAlreadyEnabled;
+                }
+
+                account.totpSecret = generateTotpSecret();
+                account.totpLastStep = undefined;
+                await account.save();
+
+                res.json({
+                    result: "success",
+                    data: {
+                        secret: account.totpSecret,
+                        otpauthUri: buildOtpauthUri(
+                            account.totpSecret,
+                            account.email
+                        ),
+                    },
+                });
+            })
+            .catch((err) => handleError(err, res));
+    }
+);
+
+/**
+ * @swagger
+ * /auth/2fa/enable:
+ *   post:
+ *     summary: Confirm two-factor enrollment
+ *     description: Activate the secret from /auth/2fa/setup with a code from the authenticator app. Returns recovery codes, they are only shown once. When called with the enrollment token a full token pair is returned as well.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Two-factor authentication enabled
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     recoveryCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: ["3f9a1-0c2d7", "b81e4-77a05"]
+ *       400:
+ *         description: Two-factor authentication not set up or already enabled
+ *       401:
+ *         description: Wrong two-factor code
+ */
+AuthRouter.post(
+    "/2fa/enable",
+    limiter,
+    requireLogin("enroll-2fa"),
+    forbidImpersonation,
+    (req: Request, res: Response) => {
+        const { user, code } = req.body;
+
+        AccountModel.findById(user.id)
+            .then(async (account) => {
+                if (!account) {
+                    throw Unauthorized;
+                }
+
+                if (account.totpEnabled) {
+                    throw TwoFactorAlreadyEnabled;
+                }
+
+                if (!account.totpSecret) {
+                    throw TwoFactorNotSetUp;
+                }
+
+                const step = verifyTotp(account.totpSecret, String(code));
+                if (step === null) {
+                    throw WrongTwoFactorCode;
+                }
+
+                const recoveryCodes = generateRecoveryCodes();
+                account.totpEnabled = true;
+                account.totpLastStep = step;
+                account.recoveryCodes = recoveryCodes.map(hashRecoveryCode);
+                await account.save();
+
+                let data: LoginData = { recoveryCodes };
+                if (user.restriction) {
+                    await revokeAccessToken(user);
+                    const login = await issueLoginTokens(
+                        account,
+                        getSessionInfo(req)
+                    );
+                    data = { ...login.data, recoveryCodes };
+                }
+
+                res.json({
+                    result: "success",
+                    message: "Two-factor authentication enabled",
+                    data,
+                } as LoginResponse);
+            })
+            .catch((err) => handleError(err, res));
+    }
+);
+
+/**
+ * @swagger
+ * /auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes
+ *     description: Replace every recovery code of the logged-in account. Requires a current TOTP code.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *       400:
+ *         description: Two-factor authentication is not set up
+ *       401:
+ *         description: Wrong two-factor code
+ */
+AuthRouter.post(
+    "/2fa/recovery-codes",
+    limiter,
+    requireLogin(),
+    forbidImpersonation,
+    (req: Request, res: Response) => {
+        const { user, code } = req.body;
+
+        AccountModel.findById(user.id)
+            .then(async (account) => {
+                if (!account) {
+                    throw Unauthorized;
+                }
+
+                if (!account.totpEnabled) {
+                    throw TwoFactorNotSetUp;
+                }
+
+                await checkSecondFactor(account, code);
+
+                const recoveryCodes = generateRecoveryCodes();
+                account.recoveryCodes = recoveryCodes.map(hashRecoveryCode);
+                await account.save();
+
+                res.json({
+                    result: "success",
+                    message: "Recovery codes regenerated",
+                    data: {
+                        recoveryCodes,
+                    },
+                } as LoginResponse);
+            })
+            .catch((err) => handleError(err, res));
+    }
+);
+
+/**
+ * @swagger
+ * /auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     description: Turn off two-factor authentication for the logged-in account. Not allowed for Admin and manager roles, for whom it is mandatory. Accounts whose password is managed by the identity provider confirm with a current code or a recovery code instead of a password.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 example: password123
+ *               code:
+ *                 type: string
+ *                 description: For accounts managed by the identity provider
+ *                 example: "123456"
+ *               recoveryCode:
+ *                 type: string
+ *                 description: For accounts managed by the identity provider, instead of code
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: Two-factor authentication is not set up
+ *       401:
+ *         description: Wrong password or two-factor code
+ *       403:
+ *         description: Two-factor authentication is mandatory for this role
+ */
+AuthRouter.post(
+    "/2fa/disable",
+    limiter,
+    requireLogin(),
+    forbidImpersonation,
+    (req: Request, res: Response) => {
+        const { user, password, code, recoveryCode } = req.body;
+
+        AccountModel.findById(user.id)
+            .then(async (account) => {
+                if (!account) {
+                    throw Unauthorized;
+                }
+
+                if (isTwoFactorRequired(account.role)) {
+                    throw TwoFactorMandatory;
+                }
+
+                // the identity provider holds the password, a second factor
+                // proves it is still the owner instead
+                if (account.oidcSubject && !account.password) {
+                    if (!account.totpEnabled) {
+                        throw TwoFactorNotSetUp;
+                    }
+                    await checkSecondFactor(account, code, recoveryCode);
+                } else {
+                    const matchPassword = await compare(
+                        password || "",
+                        account.password
+                    );
+                    if (!matchPassword) {
+                        throw WrongPassword;
+                    }
+                }
+
+                account.totpEnabled = false;
+                account.totpSecret = undefined;
+                account.totpLastStep = undefined;
+                account.recoveryCodes = [];
+                await account.save();
+
+                res.json({
+                    result: "success",
+                    message: "Two-factor authentication disabled",
+                });
+            })
+            .catch((err) => handleError(err, res));
+    }
+);
+
+/**
+ * @swagger
+ * /auth/check-token:
+ *   post:
+ *     summary: Check token expiry
+ *     description: Check if the provided JWT token is expired.
  *     tags:
  *       - Auth
  *     requestBody:
@@ -459,27 +2577,14 @@ AuthRouter.post("/check-token", (req: Request, res: Response) => {
         return handleError(InvalidToken, res);
     }
 
-    const JWT_SECRET = process.env.JWT_SECRET;
-
-    if (!JWT_SECRET) {
-        throw new Error("JWT_SECRET is not defined");
-    }
-
-    jwt.verify(token, JWT_SECRET, (err: Error | null, decoded: any) => {
-        if (err) {
-            return handleError(InvalidToken, res);
-        }
-
-        const currentTime = Math.floor(Date.now() / 1000);
-        if (decoded.exp < currentTime) {
-            return handleError(TokenExpired, res);
-        }
-
-        res.json({
-            result: "success",
-            message: "Token is valid",
-        });
-    });
+    verifyAccessToken(token)
+        .then(() => {
+            res.json({
+                result: "success",
+                message: "Token is valid",
+            });
+        })
+        .catch((err) => handleError(err, res));
 });
 
 /**
@@ -506,6 +2611,9 @@ AuthRouter.post("/check-token", (req: Request, res: Response) => {
  *                 data:
  *                   type: object
  *                   properties:
+ *                     id:
+ *                       type: string
+ *                       example: 671a2b3c4d5e6f7a8b9c0d1e
  *                     email:
  *                       type: string
  *                       example: johndoe@example.com
@@ -515,6 +2623,28 @@ AuthRouter.post("/check-token", (req: Request, res: Response) => {
  *                     role:
  *                       type: string
  *                       example: user
+ *                     restriction:
+ *                       type: string
+ *                       nullable: true
+ *                       description: Set while the login is incomplete (change-password or enroll-2fa)
+ *                       example: null
+ *                     impersonation:
+ *                       type: object
+ *                       nullable: true
+ *                       description: Set when an Admin is acting as this account
+ *                       properties:
+ *                         impersonator:
+ *                           type: object
+ *                           properties:
+ *                             id:
+ *                               type: string
+ *                             email:
+ *                               type: string
+ *                             name:
+ *                               type: string
+ *                         allowWrite:
+ *                           type: boolean
+ *                           example: false
  *       401:
  *         description: Unauthorized, invalid or expired token
  *         content:
@@ -537,26 +2667,101 @@ AuthRouter.get("/me", (req: Request, res: Response) => {
     }
 
     const token = authHeader.split(" ")[1];
-    const JWT_SECRET = process.env.JWT_SECRET;
 
-    if (!JWT_SECRET) {
-        throw new Error("JWT_SECRET is not defined");
-    }
+    verifyAccessToken(token)
+        .then((decoded) => {
+            res.json({
+                result: "success",
+                data: {
+                    id: decoded.id,
+                    email: decoded.email,
+                    name: decoded.name,
+                    role: decoded.role,
+                    restriction: decoded.restriction ?? null,
+                    impersonation: decoded.impersonator
+                        ? {
+                              impersonator: decoded.impersonator,
+                              allowWrite: !!decoded.allowWrite,
+                          }
+                        : null,
+                },
+            });
+        })
+        .catch(() => handleError(Unauthorized, res));
+});
 
-    jwt.verify(token, JWT_SECRET, (err: Error | null, decoded: any) => {
-        if (err) {
-            return handleError(Unauthorized, res);
-        }
+/**
+ * @swagger
+ * /auth/me/permissions:
+ *   get:
+ *     summary: Get the permissions of the current user
+ *     description: Return the role of the logged in user, the roles it inherits, its role permissions and the permissions it ends up with once account overrides apply.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Permissions of the current user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     role:
+ *                       type: string
+ *                       example: WarehouseManager
+ *                     isManager:
+ *                       type: boolean
+ *                       example: true
+ *                     inheritedRoles:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: ["Employee"]
+ *                     rolePermissions:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     permissions:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       401:
+ *         description: Unauthorized, invalid or expired token
+ */
+AuthRouter.get(
+    "/me/permissions",
+    limiter,
+    requireLogin(),
+    async (req: Request, res: Response) => {
+        const { user } = req.body;
 
-        res.json({
-            result: "success",
-            data: {
-                email: decoded.email,
-                name: decoded.name,
-                role: decoded.role,
-            },
-        });
-    });
-});
+        try {
+            const overrides = await loadPermissionOverrides(user.id);
+
+            res.status(200).json({
+                result: "success",
+                data: {
+                    role: user.role,
+                    isManager: isManagerRole(user.role),
+                    inheritedRoles: getInheritedRoles(user.role),
+                    rolePermissions: Array.from(
+                        new Set(getRolePermissions(user.role))
+                    ),
+                    permissions: getEffectivePermissions(user.role, overrides),
+                },
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
 
 export default AuthRouter;
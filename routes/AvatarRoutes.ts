@@ -0,0 +1,265 @@
+import { Router, Request, Response } from "express";
+import multer from "multer";
+
+import AccountModel from "../models/AccountModel";
+import BaseError from "../types/error";
+import { Permission } from "../types/role";
+import { handleError } from "../helpers/errors";
+import {
+    AVATAR_MAX_SIZE,
+    AVATAR_TYPES,
+    isAvatarSize,
+    saveAvatar,
+    readAvatar,
+    removeAvatar,
+} from "../helpers/avatars";
+
+import { requireLogin } from "../middleware/auth/RoleAuth";
+import {
+    requireSelfOrManager,
+    accountOwner,
+} from "../middleware/auth/SelfAuth";
+import limiter from "../middleware/RateLimiter";
+
+const AvatarRoutes = Router();
+
+const AccountNotFound = new BaseError("Account not found", 404);
+const AvatarNotFound = new BaseError("Avatar not found", 404);
+const AvatarMissing = new BaseError("Missing avatar file", 400);
+const AvatarTypeNotValid = new BaseError(
+    "Avatar must be a JPEG, PNG or WebP image",
+    400
+);
+const AvatarTooLarge = new BaseError(
+    `Avatar must be smaller than ${AVATAR_MAX_SIZE / 1024 / 1024} MB`,
+    413
+);
+const SizeNotValid = new BaseError("Size must be small, medium or large", 400);
+
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: AVATAR_MAX_SIZE, files: 1 },
+    fileFilter: (req, file, callback) => {
+        if (AVATAR_TYPES.includes(file.mimetype)) {
+            callback(null, true);
+        } else {
+            callback(AvatarTypeNotValid);
+        }
+    },
+}).single("avatar");
+
+// Parse the multipart body. Multer replaces req.body, so the user set by the
+// auth middleware is carried over.
+function receiveAvatar(req: Request, res: Response): Promise<Buffer> {
+    const { user } = req.body;
+
+    return new Promise((resolve, reject) => {
+        upload(req, res, (err) => {
+            req.body = { ...req.body, user };
+
+            if (err instanceof multer.MulterError) {
+                reject(
+                    err.code === "LIMIT_FILE_SIZE"
+                        ? AvatarTooLarge
+                        : new BaseError(err.message, 400)
+                );
+            } else if (err) {
+                reject(err);
+            } else if (!req.file) {
+                reject(AvatarMissing);
+            } else {
+                resolve(req.file.buffer);
+            }
+        });
+    });
+}
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Avatar
+ *     description: Account profile pictures
+ * /avatar/upload/{accountId}:
+ *   post:
+ *     summary: Upload an avatar
+ *     description: Replace the avatar of an account with a JPEG, PNG or WebP image of at most 5 MB. The image is cropped to a square and stored in small (64px), medium (256px) and large (512px) sizes. Users can change their own avatar, managers holding manage_employees any avatar.
+ *     tags:
+ *       - Avatar
+ *     parameters:
+ *       - in: path
+ *         name: accountId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               avatar:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Avatar uploaded
+ *       400:
+ *         description: Missing file or not an accepted image
+ *       403:
+ *         description: Not the account owner nor a manager
+ *       404:
+ *         description: Account not found
+ *       413:
+ *         description: File too large
+ */
+AvatarRoutes.post(
+    "/upload/:accountId",
+    limiter,
+    requireSelfOrManager(
+        accountOwner((req) => req.params.accountId),
+        Permission.MANAGE_EMPLOYEES
+    ),
+    async (req: Request, res: Response) => {
+        try {
+            const image = await receiveAvatar(req, res);
+
+            const account = await AccountModel.findById(req.params.accountId);
+            if (!account) {
+                throw AccountNotFound;
+            }
+
+            const previous = account.avatarPath;
+            account.avatarPath = await saveAvatar(account.id, image);
+            await account.save();
+            await removeAvatar(previous);
+
+            res.status(200).json({
+                result: "success",
+                message: "Avatar uploaded",
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /avatar/get/{accountId}:
+ *   get:
+ *     summary: Get an avatar
+ *     description: Serve the avatar image of an account to any logged in user.
+ *     tags:
+ *       - Avatar
+ *     parameters:
+ *       - in: path
+ *         name: accountId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: size
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [small, medium, large]
+ *           default: medium
+ *     responses:
+ *       200:
+ *         description: The avatar
+ *         content:
+ *           image/webp:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Size not valid
+ *       404:
+ *         description: Account or avatar not found
+ */
+AvatarRoutes.get(
+    "/get/:accountId",
+    limiter,
+    requireLogin(),
+    async (req: Request, res: Response) => {
+        const size = String(req.query.size || "medium");
+
+        try {
+            if (!isAvatarSize(size)) {
+                throw SizeNotValid;
+            }
+
+            const account = await AccountModel.findById(
+                req.params.accountId
+            ).select("avatarPath");
+            if (!account) {
+                throw AccountNotFound;
+            }
+
+            const avatar =
+                account.avatarPath &&
+                (await readAvatar(account.avatarPath, size));
+            if (!avatar) {
+                throw AvatarNotFound;
+            }
+
+            res.set("Content-Type", avatar.contentType);
+            res.set("Cache-Control", "private, max-age=300");
+            res.send(avatar.data);
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /avatar/delete/{accountId}:
+ *   delete:
+ *     summary: Remove an avatar
+ *     tags:
+ *       - Avatar
+ *     parameters:
+ *       - in: path
+ *         name: accountId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Avatar removed
+ *       403:
+ *         description: Not the account owner nor a manager
+ *       404:
+ *         description: Account not found
+ */
+AvatarRoutes.delete(
+    "/delete/:accountId",
+    limiter,
+    requireSelfOrManager(
+        accountOwner((req) => req.params.accountId),
+        Permission.MANAGE_EMPLOYEES
+    ),
+    async (req: Request, res: Response) => {
+        try {
+            const account = await AccountModel.findById(req.params.accountId);
+            if (!account) {
+                throw AccountNotFound;
+            }
+
+            await removeAvatar(account.avatarPath);
+            account.avatarPath = "";
+            await account.save();
+
+            res.status(200).json({
+                result: "success",
+                message: "Avatar removed",
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+export default AvatarRoutes;
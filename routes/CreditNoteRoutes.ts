@@ -0,0 +1,355 @@
+import { Router, Request, Response } from "express";
+import { isValidObjectId } from "mongoose";
+
+import CreditNoteModel from "../models/CreditNoteModel";
+import BaseError from "../types/error";
+import { handleError } from "../helpers/errors";
+import { applyCreditNote, canNeverApply } from "../helpers/refunds";
+import { CreditNoteStatus } from "../types/sell";
+import { Permission, Role } from "../types/role";
+import { requireRole, requirePermission } from "../middleware/auth/RoleAuth";
+import limiter from "../middleware/RateLimiter";
+
+const CreditNoteRoutes = Router();
+
+const CreditNoteNotFound = new BaseError("Credit note not found", 404);
+const StatusNotValid = new BaseError(
+    `status must be one of ${Object.values(CreditNoteStatus).join(", ")}`,
+    400
+);
+const SellNotValid = new BaseError("sell must be a valid id", 400);
+const NotPending = new BaseError("Credit note was already reviewed", 409);
+const OwnRefund = new BaseError(
+    "A refund cannot be reviewed by the person who requested it",
+    403
+);
+
+/**
+ * @swagger
+ * tags:
+ *   - name: CreditNote
+ *     description: Money given back on voided and refunded sales
+ * /credit-note/list:
+ *   get:
+ *     summary: List credit notes
+ *     description: Newest first, optionally only those of a status or of a sale.
+ *     tags:
+ *       - CreditNote
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected]
+ *       - in: query
+ *         name: sell
+ *         schema:
+ *           type: string
+ *         description: Only the credit notes of this sale
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           example: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           example: 10
+ *     responses:
+ *       200:
+ *         description: A page of credit notes
+ *       400:
+ *         description: Invalid filter, page or limit
+ */
+CreditNoteRoutes.get(
+    "/list",
+    limiter,
+    requireRole(Role.Employee),
+    async (req: Request, res: Response) => {
+        const limit = parseInt(req.query.limit as string) || 10;
+        const page = parseInt(req.query.page as string) || 1;
+        const skip = (page - 1) * limit;
+
+        if (page < 1 || limit < 1 || limit > 100) {
+            res.status(400).json({
+                result: "error",
+                message:
+                    "Page must be greater than 0 and limit between 1 and 100",
+            });
+            return;
+        }
+
+        const { status, sell } = req.query;
+
+        try {
+            const filter: Record<string, unknown> = {};
+            if (status !== undefined) {
+                if (
+                    !Object.values(CreditNoteStatus).includes(
+                        status as CreditNoteStatus
+                    )
+                ) {
+                    throw StatusNotValid;
+                }
+                filter.status = status;
+            }
+            if (sell !== undefined) {
+                if (!isValidObjectId(sell)) {
+                    throw SellNotValid;
+                }
+                filter.sell = sell;
+            }
+
+            const creditNotes = await CreditNoteModel.find(filter)
+                .sort({ requestedAt: -1 })
+                .limit(limit)
+                .skip(skip)
+                .exec();
+            const count = await CreditNoteModel.countDocuments(filter);
+
+            res.status(200).json({
+                result: "success",
+                creditNotes,
+                pagination: {
+                    total: count,
+                    limit,
+                    page,
+                    pages: Math.ceil(count / limit),
+                },
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /credit-note/get/{id}:
+ *   get:
+ *     summary: Get a credit note
+ *     tags:
+ *       - CreditNote
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The credit note, with who requested and reviewed it
+ *       404:
+ *         description: Credit note not found
+ */
+CreditNoteRoutes.get(
+    "/get/:id",
+    limiter,
+    requireRole(Role.Employee),
+    async (req: Request, res: Response) => {
+        try {
+            const creditNote = await CreditNoteModel.findById(req.params.id)
+                .populate("requestedBy", "username")
+                .populate("reviewedBy", "username")
+                .exec();
+            if (!creditNote) {
+                throw CreditNoteNotFound;
+            }
+
+            res.status(200).json({
+                result: "success",
+                creditNote,
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /credit-note/approve/{id}:
+ *   post:
+ *     summary: Approve a pending refund or void
+ *     description: Apply a refund or void that was above the approval threshold. Someone else than the requester has to approve it. Fails when the sale was refunded meanwhile and no longer has that much left, or when a sale waiting to be voided was paid, cancelled or paid more meanwhile.
+ *     tags:
+ *       - CreditNote
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Refund or void approved and applied
+ *       403:
+ *         description: Approver is the requester
+ *       404:
+ *         description: Credit note not found
+ *       409:
+ *         description: Already reviewed, or the sale changed meanwhile. When the note can never apply (nothing left to refund, sale paid, cancelled or paid more) it is marked rejected, otherwise it stays pending
+ */
+CreditNoteRoutes.post(
+    "/approve/:id",
+    limiter,
+    requirePermission(Permission.APPROVE_REFUNDS),
+    async (req: Request, res: Response) => {
+        const { user, note } = req.body;
+        const { id } = req.params as { id: string };
+
+        try {
+            const creditNote = await CreditNoteModel.findById(id).exec();
+            if (!creditNote) {
+                throw CreditNoteNotFound;
+            }
+            if (creditNote.status !== CreditNoteStatus.Pending) {
+                throw NotPending;
+            }
+            if (creditNote.requestedBy.toString() === user.id) {
+                throw OwnRefund;
+            }
+
+            // claim the note first so two approvals cannot both apply it
+            const approved = await CreditNoteModel.findOneAndUpdate(
+                { _id: id, status: CreditNoteStatus.Pending },
+                {
+                    $set: {
+                        status: CreditNoteStatus.Approved,
+                        reviewedBy: user.id,
+                        reviewedAt: new Date(),
+                        reviewNote: typeof note === "string" ? note : undefined,
+                    },
+                },
+                { new: true }
+            ).exec();
+            if (!approved) {
+                throw NotPending;
+            }
+
+            try {
+                await applyCreditNote(approved);
+            } catch (err) {
+                // a note that can never apply is closed, one that lost a race
+                // goes back to pending so it can be approved again
+                await CreditNoteModel.updateOne(
+                    { _id: id, status: CreditNoteStatus.Approved },
+                    canNeverApply(err)
+                        ? {
+                              $set: {
+                                  status: CreditNoteStatus.Rejected,
+                                  reviewNote: `Could not be applied: ${
+                                      (err as Error).message
+                                  }`,
+                              },
+                          }
+                        : {
+                              $set: { status: CreditNoteStatus.Pending },
+                              $unset: {
+                                  reviewedBy: "",
+                                  reviewedAt: "",
+                                  reviewNote: "",
+                              },
+                          }
+                );
+                throw err;
+            }
+
+            res.status(200).json({
+                result: "success",
+                message: "Refund approved",
+                creditNote: approved,
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /credit-note/reject/{id}:
+ *   post:
+ *     summary: Reject a pending refund
+ *     description: Nothing is given back. The credit note is kept, marked as rejected.
+ *     tags:
+ *       - CreditNote
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 example: Item was eaten
+ *     responses:
+ *       200:
+ *         description: Refund rejected
+ *       403:
+ *         description: Reviewer is the requester
+ *       404:
+ *         description: Credit note not found
+ *       409:
+ *         description: Already reviewed
+ */
+CreditNoteRoutes.post(
+    "/reject/:id",
+    limiter,
+    requirePermission(Permission.APPROVE_REFUNDS),
+    async (req: Request, res: Response) => {
+        const { user, note } = req.body;
+        const { id } = req.params as { id: string };
+
+        try {
+            const creditNote = await CreditNoteModel.findById(id).exec();
+            if (!creditNote) {
+                throw CreditNoteNotFound;
+            }
+            if (creditNote.requestedBy.toString() === user.id) {
+                throw OwnRefund;
+            }
+
+            const rejected = await CreditNoteModel.findOneAndUpdate(
+                { _id: id, status: CreditNoteStatus.Pending },
+                {
+                    $set: {
+                        status: CreditNoteStatus.Rejected,
+                        reviewedBy: user.id,
+                        reviewedAt: new Date(),
+                        reviewNote: typeof note === "string" ? note : undefined,
+                    },
+                },
+                { new: true }
+            ).exec();
+            if (!rejected) {
+                throw NotPending;
+            }
+
+            res.status(200).json({
+                result: "success",
+                message: "Refund rejected",
+                creditNote: rejected,
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+export default CreditNoteRoutes;
@@ -1,22 +1,57 @@
 import { Router, Request, Response } from "express";
 import { compare, hash } from "bcrypt";
 
-import EmployeeModel, { IEmployee } from "../models/EmployeeModels";
+import EmployeeModel, {
+    IEmployee,
+    EmployeeAccountFields,
+} from "../models/EmployeeModels";
+import AccountModel from "../models/AccountModel";
+import RoleChangeModel from "../models/RoleChangeModel";
 import CheckinModels, { ICheckin } from "../models/CheckinModels";
 import { handleError } from "../helpers/errors";
+import { revokeAllSessions } from "../helpers/token";
+import { canAssignRole } from "../helpers/auth";
+import { getRoleDefinition } from "../helpers/roles";
+import { loadPermissionOverrides } from "../helpers/overrides";
+import { removeAvatar } from "../helpers/avatars";
+import { validatePassword, setAccountPassword } from "../helpers/password";
 
 import {
     requireRole,
     requirePermission,
     requirePermissions,
     requireManager,
+    forbidImpersonation,
 } from "../middleware/auth/RoleAuth";
+import {
+    requireSelfOrManager,
+    employeeOwner,
+} from "../middleware/auth/SelfAuth";
 import limiter from "../middleware/RateLimiter";
-import { checkEmptyFields } from "../helpers/general";
+import { checkEmptyFields, isValidEmail } from "../helpers/general";
+import { sendVerificationEmail } from "../helpers/mail";
 import { Permission, Role } from "../types/role";
+import BaseError from "../types/error";
 
 const EmployeeRoutes = Router();
 
+const WrongPassword = new BaseError("Wrong password", 401);
+const EmailNotValid = new BaseError("Email not valid", 400);
+const EmailTaken = new BaseError("Email already exists", 409);
+const AccountOutranked = new BaseError(
+    "Cannot change an employee whose role has permissions you do not hold",
+    403
+);
+
+// Managers only change employees whose role they could have assigned.
+async function canManageAccount(
+    user: { id: string; role: string },
+    targetRole: string
+): Promise<boolean> {
+    const overrides = await loadPermissionOverrides(user.id);
+    return canAssignRole(user.role, targetRole, overrides);
+}
+
 /**
  * @swagger
  * tags:
@@ -55,7 +90,7 @@ EmployeeRoutes.get("/", (res: Response) => {
  * /employee/add:
  *   post:
  *     summary: Add a new employee
- *     description: Add a new employee
+ *     description: Add a new employee. The role must exist and the caller must hold every permission it carries.
  *     tags:
  *       - Employee
  *     requestBody:
@@ -73,7 +108,6 @@ EmployeeRoutes.get("/", (res: Response) => {
  *               - password
  *               - isActive
  *               - isVerified
- *               - isFirstTime
  *             properties:
  *               name:
  *                 type: string
@@ -96,9 +130,6 @@ EmployeeRoutes.get("/", (res: Response) => {
  *               isVerified:
  *                 type: boolean
  *                 description: Is the employee verified
- *               isFirstTime:
- *                 type: boolean
- *                 description: Is this the first time the employee is logging in
  *     responses:
  *       200:
  *         description: Employee added successfully
@@ -153,6 +184,8 @@ EmployeeRoutes.get("/", (res: Response) => {
  *                 message:
  *                   type: string
  *                   example: Missing required fields
+ *       403:
+ *         description: Caller does not hold every permission of the role
  *       500:
  *         description: Internal server error
  *         content:
@@ -186,7 +219,6 @@ EmployeeRoutes.post(
             "password",
             "isActive",
             "isVerified",
-            "isFirstTime",
             "birthDate",
             "sex",
             "address",
@@ -201,6 +233,7 @@ EmployeeRoutes.post(
         }
 
         const {
+            user,
             name,
             email,
             phoneNumber,
@@ -208,54 +241,88 @@ EmployeeRoutes.post(
             password,
             isActive,
             isVerified,
-            isFirstTime,
             birthDate,
             sex,
             address,
             checkins,
         } = req.body;
 
-        EmployeeModel.findOne({ email }).then((employee) => {
-            if (employee) {
+        try {
+            if (!getRoleDefinition(role)) {
+                res.status(400).json({
+                    result: "error",
+                    message: "Role not valid",
+                });
+                return;
+            }
+
+            const overrides = await loadPermissionOverrides(user.id);
+            if (!canAssignRole(user.role, role, overrides)) {
+                res.status(403).json({
+                    result: "error",
+                    message:
+                        "Cannot assign a role with permissions you do not hold",
+                });
+                return;
+            }
+
+            if (await AccountModel.exists({ email })) {
                 res.status(400).json({
                     result: "error",
                     message: "Email already exists",
                 });
                 return;
             }
-        });
 
-        const employee = new EmployeeModel({
-            name,
-            email,
-            phoneNumber,
-            role,
-            password: await hash(password, 10),
-            isActive,
-            isVerified,
-            isFirstTime,
-            birthDate,
-            sex,
-            address,
-            checkins,
-        });
-        employee
-            .save()
-            .then((employee) => {
+            await validatePassword(password);
+
+            const account = await AccountModel.create({
+                email,
+                password: await hash(password, 10),
+                name,
+                role,
+                isActive,
+                isVerified,
+                // the initial password is set by a manager, so it has to be
+                // changed on the first login
+                isFirstTime: true,
+            });
+
+            try {
+                const employee = await new EmployeeModel({
+                    account: account._id,
+                    phoneNumber,
+                    birthDate,
+                    sex,
+                    address,
+                    checkins,
+                }).save();
+                await RoleChangeModel.create({
+                    account: account._id,
+                    newRole: role,
+                    changedBy: user.id,
+                });
+                await employee.populate("account", EmployeeAccountFields);
+
                 res.status(200).json({
                     result: "success",
                     message: "Employee added successfully",
                     employee,
                 });
-            })
-            .catch((err) => {
+            } catch (err) {
                 console.log(err);
+                // leave neither half of the employee behind
+                await EmployeeModel.deleteOne({ account: account._id });
+                await AccountModel.findByIdAndDelete(account._id);
                 res.status(500).json({
                     result: "error",
                     message: "Failed to add employee",
                     error: err,
                 });
-            });
+            }
+        } catch (err) {
+            handleError(err, res);
+        }
     }
 );
 
@@ -316,9 +383,16 @@ EmployeeRoutes.get(
     async (req: Request, res: Response) => {
         const { search } = req.params;
         try {
-            const employees = await EmployeeModel.find({
+            const accounts = await AccountModel.find({
                 name: { $regex: search, $options: "i" },
-            }).exec();
+            })
+                .select("_id")
+                .exec();
+            const employees = await EmployeeModel.find({
+                account: { $in: accounts.map((account) => account._id) },
+            })
+                .populate("account", EmployeeAccountFields)
+                .exec();
             res.status(200).json({
                 result: "success",
                 employees,
@@ -422,7 +496,9 @@ EmployeeRoutes.get(
     async (req: Request, res: Response) => {
         const { id } = req.params;
         try {
-            const employee = await EmployeeModel.findById(id).exec();
+            const employee = await EmployeeModel.findById(id)
+                .populate("account", EmployeeAccountFields)
+                .exec();
             res.status(200).json({
                 result: "success",
                 employee,
@@ -438,7 +514,7 @@ EmployeeRoutes.get(
  * /employee/update/{id}:
  *   put:
  *     summary: Update employee
- *     description: Update employee with the provided information
+ *     description: Update employee with the provided information. Employees can only update their own profile and need their current password to change it. Managers holding manage_employees can update anyone whose role they could assign. A new email has to be verified again, a verification email is sent to it.
  *     tags:
  *       - Employee
  *     parameters:
@@ -464,6 +540,10 @@ EmployeeRoutes.get(
  *               password:
  *                 type: string
  *                 example: password123
+ *               oldPassword:
+ *                 type: string
+ *                 description: Current password, required when changing your own
+ *                 example: password123
  *     responses:
  *       200:
  *         description: Employee updated successfully
@@ -505,6 +585,12 @@ EmployeeRoutes.get(
  *                     updatedAt:
  *                       type: string
  *                       example: 2021-01-01T01:01:01.000Z
+ *       400:
+ *         description: Email not valid, or password does not meet the policy
+ *       401:
+ *         description: Wrong current password
+ *       403:
+ *         description: Not the employee nor a manager allowed to manage employees with this role, or impersonating
  *       404:
  *         description: Employee not found
  *         content:
@@ -518,6 +604,8 @@ EmployeeRoutes.get(
  *                 message:
  *                   type: string
  *                   example: Employee not found
+ *       409:
+ *         description: Email already exists
  *       500:
  *         description: Internal server error
  *         content:
@@ -541,23 +629,64 @@ EmployeeRoutes.get(
 EmployeeRoutes.put(
     "/update/:id",
     limiter,
-    requireRole(Role.Employee),
+    requireSelfOrManager(
+        employeeOwner((req) => req.params.id),
+        Permission.MANAGE_EMPLOYEES
+    ),
+    // changes the password and email
+    forbidImpersonation,
     async (req: Request, res: Response) => {
         const { id } = req.params;
-        const { name, email, password } = req.body;
+        const { user, name, email, password, oldPassword } = req.body;
         try {
             const employee = await EmployeeModel.findById(id).exec();
-            if (!employee) {
+            const account =
+                employee && (await AccountModel.findById(employee.account));
+            if (!employee || !account) {
                 res.status(404).json({
                     result: "error",
                     message: "Employee not found",
                 });
                 return;
             }
-            if (name) employee.name = name;
-            if (email) employee.email = email;
-            if (password) employee.password = password;
-            await employee.save();
+            // managers reset passwords, employees change their own, which
+            // takes the current one as on /auth/change-password
+            if (
+                password &&
+                account.id === user.id &&
+                !(
+                    account.password &&
+                    (await compare(String(oldPassword ?? ""), account.password))
+                )
+            ) {
+                throw WrongPassword;
+            }
+            // a new address is unconfirmed until its owner opens the link
+            const emailChanged = !!email && email !== account.email;
+            if (emailChanged) {
+                if (!isValidEmail(email)) {
+                    throw EmailNotValid;
+                }
+                if (
+                    await AccountModel.exists({
+                        email,
+                        _id: { $ne: account._id },
+                    })
+                ) {
+                    throw EmailTaken;
+                }
+                account.email = email;
+                account.isVerified = false;
+            }
+            if (name) account.name = name;
+            if (password) {
+                await validatePassword(password, account);
+                await setAccountPassword(account, password);
+            }
+            await account.save();
+            if (password) await revokeAllSessions(account.id);
+            if (emailChanged) await sendVerificationEmail(account);
+            await employee.populate("account", EmployeeAccountFields);
             res.status(200).json({
                 result: "success",
                 message: "Employee updated successfully",
@@ -574,7 +703,7 @@ EmployeeRoutes.put(
  * /employee/delete/{id}:
  *   delete:
  *     summary: Delete an employee
- *     description: Delete an employee by id
+ *     description: Delete an employee by id, along with their account. Needs manage_employees and a role allowed to assign the employee's role.
  *     tags:
  *       - Employee
  *     parameters:
@@ -625,6 +754,8 @@ EmployeeRoutes.put(
  *                     updatedAt:
  *                       type: string
  *                       example: 2021-01-01T01:01:01.000Z
+ *       403:
+ *         description: Missing manage_employees, or the employee's role has permissions the caller does not hold
  *       404:
  *         description: Employee not found
  *         content:
@@ -661,11 +792,12 @@ EmployeeRoutes.put(
 EmployeeRoutes.delete(
     "/delete/:id",
     limiter,
-    requireRole(Role.Employee),
+    requirePermission(Permission.MANAGE_EMPLOYEES),
     async (req: Request, res: Response) => {
         const { id } = req.params;
+        const { user } = req.body;
         try {
-            const employee = await EmployeeModel.findByIdAndDelete(id).exec();
+            const employee = await EmployeeModel.findById(id).exec();
             if (!employee) {
                 res.status(404).json({
                     result: "error",
@@ -673,6 +805,16 @@ EmployeeRoutes.delete(
                 });
                 return;
             }
+            const account = await AccountModel.findById(employee.account);
+            if (account && !(await canManageAccount(user, account.role))) {
+                throw AccountOutranked;
+            }
+            await employee.deleteOne();
+            await revokeAllSessions(employee.account.toString());
+            if (account) {
+                await account.deleteOne();
+                await removeAvatar(account.avatarPath);
+            }
             res.status(200).json({
                 result: "success",
                 message: "Employee deleted successfully",
@@ -788,6 +930,7 @@ EmployeeRoutes.get(
             const skipIndex = (page - 1) * limit;
 
             const employees = await EmployeeModel.find()
+                .populate("account", EmployeeAccountFields)
                 .skip(skipIndex)
                 .limit(limit)
                 .exec();
@@ -953,10 +1096,12 @@ EmployeeRoutes.post(
             return;
         }
 
-        const { id, isActive } = req.body;
-        EmployeeModel.findByIdAndUpdate(id)
-            .then((product) => {
-                if (!product) {
+        const { user, id, isActive } = req.body;
+        EmployeeModel.findById(id)
+            .then(async (employee) => {
+                const account =
+                    employee && (await AccountModel.findById(employee.account));
+                if (!account) {
                     res.status(404).json({
                         result: "error",
                         message: "Not found",
@@ -964,13 +1109,232 @@ EmployeeRoutes.post(
                     return;
                 }
 
-                product.isActive = isActive;
-                product.save();
+                if (!(await canManageAccount(user, account.role))) {
+                    throw AccountOutranked;
+                }
+
+                account.isActive = isActive;
+                await account.save();
+                if (!account.isActive) {
+                    await revokeAllSessions(account.id);
+                }
+
+                res.status(200).json({
+                    result: "success",
+                    message: "Employee status updated successfully",
+                });
             })
             .catch((err) => handleError(err, res));
     }
 );
 
+/**
+ * @swagger
+ * /employee/update-role:
+ *   post:
+ *     summary: Change the role of an employee
+ *     description: Assign another role to an employee. The caller must hold every permission of both the current and the new role, and cannot change their own role. The change is recorded in the role history and the employee is signed out everywhere.
+ *     tags:
+ *       - Employee
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - id
+ *               - role
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 example: 5f9f1c3f8b6a642f3c9f85d6
+ *               role:
+ *                 type: string
+ *                 example: WarehouseManager
+ *               reason:
+ *                 type: string
+ *                 example: Promoted to warehouse lead
+ *     responses:
+ *       200:
+ *         description: Employee role updated successfully
+ *       400:
+ *         description: Missing required fields or role not valid
+ *       403:
+ *         description: Caller cannot assign or take away this role
+ *       404:
+ *         description: Employee not found
+ */
+EmployeeRoutes.post(
+    "/update-role",
+    limiter,
+    requireManager,
+    async (req: Request, res: Response) => {
+        if (checkEmptyFields(["id", "role"], req.body)) {
+            res.status(400).json({
+                result: "error",
+                message: "Missing required fields",
+            });
+            return;
+        }
+
+        const { user, id, role, reason } = req.body;
+        try {
+            if (!getRoleDefinition(role)) {
+                res.status(400).json({
+                    result: "error",
+                    message: "Role not valid",
+                });
+                return;
+            }
+
+            const employee = await EmployeeModel.findById(id).exec();
+            const account =
+                employee && (await AccountModel.findById(employee.account));
+            if (!employee || !account) {
+                res.status(404).json({
+                    result: "error",
+                    message: "Employee not found",
+                });
+                return;
+            }
+
+            if (account.id === user.id) {
+                res.status(403).json({
+                    result: "error",
+                    message: "Cannot change your own role",
+                });
+                return;
+            }
+
+            // taking a role away needs the same rights as handing it out
+            const overrides = await loadPermissionOverrides(user.id);
+            if (
+                !canAssignRole(user.role, role, overrides) ||
+                !canAssignRole(user.role, account.role, overrides)
+            ) {
+                res.status(403).json({
+                    result: "error",
+                    message:
+                        "Cannot assign a role with permissions you do not hold",
+                });
+                return;
+            }
+
+            if (account.role === role) {
+                res.status(200).json({
+                    result: "success",
+                    message: "Employee already has this role",
+                });
+                return;
+            }
+
+            const previousRole = account.role;
+            account.role = role;
+            // set locally, the identity provider groups no longer decide it
+            account.roleFromIdp = false;
+            await account.save();
+            await RoleChangeModel.create({
+                account: account._id,
+                previousRole,
+                newRole: role,
+                reason,
+                changedBy: user.id,
+            });
+            // tokens carry the role, make the employee log in again
+            await revokeAllSessions(account.id);
+
+            res.status(200).json({
+                result: "success",
+                message: "Employee role updated successfully",
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /employee/role-history/{id}:
+ *   get:
+ *     summary: Role history of an employee
+ *     description: List every role assigned to an employee, newest first, with who made the change.
+ *     tags:
+ *       - Employee
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Employee id
+ *     responses:
+ *       200:
+ *         description: Role changes of the employee
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 changes:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       previousRole:
+ *                         type: string
+ *                         example: Employee
+ *                       newRole:
+ *                         type: string
+ *                         example: WarehouseManager
+ *                       reason:
+ *                         type: string
+ *                         example: Promoted to warehouse lead
+ *                       changedBy:
+ *                         type: object
+ *                       createdAt:
+ *                         type: string
+ *                         example: 2021-01-01T01:01:01.000Z
+ *       404:
+ *         description: Employee not found
+ */
+EmployeeRoutes.get(
+    "/role-history/:id",
+    limiter,
+    requirePermission(Permission.VIEW_EMPLOYEE_RECORDS),
+    async (req: Request, res: Response) => {
+        try {
+            const employee = await EmployeeModel.findById(req.params.id)
+                .select("account")
+                .exec();
+            if (!employee) {
+                res.status(404).json({
+                    result: "error",
+                    message: "Employee not found",
+                });
+                return;
+            }
+
+            const changes = await RoleChangeModel.find({
+                account: employee.account,
+            })
+                .sort({ createdAt: -1 })
+                .populate("changedBy", "name email")
+                .exec();
+            res.status(200).json({
+                result: "success",
+                changes,
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
 /**
  * @swagger
  * /employee/verify:
@@ -1052,18 +1416,24 @@ EmployeeRoutes.post(
     limiter,
     requireManager,
     async (req: Request, res: Response) => {
-        const { id } = req.body;
+        const { user, id } = req.body;
         try {
             const employee = await EmployeeModel.findById(id).exec();
-            if (!employee) {
+            const account =
+                employee && (await AccountModel.findById(employee.account));
+            if (!employee || !account) {
                 res.status(404).json({
                     result: "error",
                     message: "Employee not found",
                 });
                 return;
             }
-            employee.isVerified = true;
-            await employee.save();
+            if (!(await canManageAccount(user, account.role))) {
+                throw AccountOutranked;
+            }
+            account.isVerified = true;
+            await account.save();
+            await employee.populate("account", EmployeeAccountFields);
             res.status(200).json({
                 result: "success",
                 message: "Employee verified successfully",
@@ -1078,9 +1448,9 @@ EmployeeRoutes.post(
 EmployeeRoutes.post(
     "/checkin",
     limiter,
-    requireRole(Role.Employee),
+    requirePermission(Permission.MANAGE_SCHEDULES),
     async (req: Request, res: Response) => {
-        const requiredFields = ["checkinTime", "type", "value", "employee"];
+        const requiredFields = ["checkinTime", "type", "value", "employee_id"];
         if (checkEmptyFields(requiredFields, req.body)) {
             res.status(400).json({
                 result: "error",
@@ -1116,7 +1486,10 @@ EmployeeRoutes.post(
 EmployeeRoutes.get(
     "/checkin",
     limiter,
-    requireRole(Role.Employee),
+    requireSelfOrManager(
+        employeeOwner((req) => req.body.employee_id),
+        Permission.VIEW_EMPLOYEE_RECORDS
+    ),
     async (req: Request, res: Response) => {
         const { employee_id } = req.body;
         const employee = await EmployeeModel.findById(employee_id).exec();
@@ -1137,7 +1510,7 @@ EmployeeRoutes.get(
 EmployeeRoutes.delete(
     "/checkin",
     limiter,
-    requireRole(Role.Employee),
+    requirePermission(Permission.MANAGE_SCHEDULES),
     async (req: Request, res: Response) => {
         const { employee_id, checkin_id } = req.body;
         const employee = await EmployeeModel.findById(employee_id).exec();
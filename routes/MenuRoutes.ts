@@ -1,13 +1,38 @@
 import { Router, Request, Response } from "express";
+import { isValidObjectId } from "mongoose";
 import { handleError } from "../helpers/errors";
 import { checkEmptyFields } from "../helpers/general";
 import { Permission, Role } from "../types/role";
 import { requireRole, requirePermission } from "../middleware/auth/RoleAuth";
 import limiter from "../middleware/RateLimiter";
 import MenuItemModel, { IMenuItem } from "../models/MenuModels";
+import ModifierGroupModel from "../models/ModifierGroupModel";
+import BaseError from "../types/error";
 
 const MenuRoutes = Router();
 
+const ModifierGroupsNotValid = new BaseError(
+    "modifierGroups must be an array of existing modifier group ids",
+    400
+);
+
+// Check the modifier groups to attach to an item, without duplicates
+async function checkModifierGroups(modifierGroups: unknown): Promise<string[]> {
+    if (!Array.isArray(modifierGroups)) {
+        throw ModifierGroupsNotValid;
+    }
+
+    const ids = Array.from(new Set(modifierGroups.map(String)));
+    if (
+        !ids.every((id) => isValidObjectId(id)) ||
+        (await ModifierGroupModel.countDocuments({ _id: { $in: ids } })) !==
+            ids.length
+    ) {
+        throw ModifierGroupsNotValid;
+    }
+    return ids;
+}
+
 // Get menu service status
 MenuRoutes.get("/", (req: Request, res: Response) => {
     res.status(200).json({
@@ -31,16 +56,22 @@ MenuRoutes.post(
             return;
         }
 
-        const { name, type, price, isAvailable } = req.body;
-
-        const menuItem = new MenuItemModel({
-            name,
-            type,
-            price,
-            isAvailable: isAvailable !== undefined ? isAvailable : true,
-        });
+        const { name, type, price, unit, isAvailable, modifierGroups } =
+            req.body;
 
         try {
+            const menuItem = new MenuItemModel({
+                name,
+                type,
+                price,
+                unit,
+                isAvailable: isAvailable !== undefined ? isAvailable : true,
+                modifierGroups:
+                    modifierGroups !== undefined
+                        ? await checkModifierGroups(modifierGroups)
+                        : [],
+            });
+
             await menuItem.save();
             res.status(200).json({
                 result: "success",
@@ -61,7 +92,9 @@ MenuRoutes.get(
     async (req: Request, res: Response) => {
         const { id } = req.params;
         try {
-            const menuItem = await MenuItemModel.findById(id).exec();
+            const menuItem = await MenuItemModel.findById(id)
+                .populate("modifierGroups")
+                .exec();
             if (!menuItem) {
                 res.status(404).json({
                     result: "error",
@@ -100,6 +133,7 @@ MenuRoutes.get(
             const skipIndex = (page - 1) * limit;
 
             const items = await MenuItemModel.find()
+                .populate("modifierGroups")
                 .skip(skipIndex)
                 .limit(limit)
                 .exec();
@@ -139,11 +173,19 @@ MenuRoutes.put(
                 return;
             }
 
-            const { name, type, price, isAvailable } = req.body;
+            const { name, type, price, unit, isAvailable, modifierGroups } =
+                req.body;
             if (name !== undefined) menuItem.name = name;
             if (type !== undefined) menuItem.type = type;
             if (price !== undefined) menuItem.price = price;
+            if (unit !== undefined) menuItem.unit = unit;
             if (isAvailable !== undefined) menuItem.isAvailable = isAvailable;
+            if (modifierGroups !== undefined) {
+                menuItem.set(
+                    "modifierGroups",
+                    await checkModifierGroups(modifierGroups)
+                );
+            }
 
             await menuItem.save();
             res.status(200).json({
@@ -191,7 +233,9 @@ MenuRoutes.get(
     requireRole(Role.Employee),
     async (req: Request, res: Response) => {
         try {
-            const items = await MenuItemModel.find().exec();
+            const items = await MenuItemModel.find()
+                .populate("modifierGroups")
+                .exec();
             res.status(200).json({
                 result: "success",
                 items,
@@ -0,0 +1,299 @@
+import { Router, Request, Response } from "express";
+
+import ModifierGroupModel from "../models/ModifierGroupModel";
+import MenuItemModel from "../models/MenuModels";
+import BaseError from "../types/error";
+import { handleError } from "../helpers/errors";
+import { parseModifierGroup } from "../helpers/modifiers";
+import { Permission, Role } from "../types/role";
+import { requireRole, requirePermission } from "../middleware/auth/RoleAuth";
+import limiter from "../middleware/RateLimiter";
+
+const ModifierGroupRoutes = Router();
+
+const ModifierGroupNotFound = new BaseError("Modifier group not found", 404);
+const ModifierGroupInUse = new BaseError(
+    "Modifier group is still attached to menu items",
+    400
+);
+
+/**
+ * @swagger
+ * tags:
+ *   - name: ModifierGroup
+ *     description: Choices offered on menu items, like sizes, milk or extra shots
+ * /modifier-group/add:
+ *   post:
+ *     summary: Add a modifier group
+ *     description: "Add a group of options that can be attached to menu items. A single select group allows one choice, a multi select group between min and max choices, where an option can be picked more than once. A required group needs at least one choice."
+ *     tags:
+ *       - ModifierGroup
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - selection
+ *               - options
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Milk
+ *               selection:
+ *                 type: string
+ *                 enum: [single, multi]
+ *                 example: single
+ *               min:
+ *                 type: integer
+ *                 example: 1
+ *               max:
+ *                 type: integer
+ *                 example: 1
+ *               required:
+ *                 type: boolean
+ *                 example: true
+ *               options:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                       example: Oat milk
+ *                     priceDelta:
+ *                       type: number
+ *                       example: 0.5
+ *                     isAvailable:
+ *                       type: boolean
+ *                       example: true
+ *     responses:
+ *       200:
+ *         description: Modifier group added
+ *       400:
+ *         description: Invalid group
+ */
+ModifierGroupRoutes.post(
+    "/add",
+    limiter,
+    requireRole(Role.EmployeeManager),
+    async (req: Request, res: Response) => {
+        try {
+            const modifierGroup = await ModifierGroupModel.create(
+                parseModifierGroup(req.body)
+            );
+            res.status(200).json({
+                result: "success",
+                message: "Modifier group added successfully",
+                modifierGroup,
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /modifier-group/list:
+ *   get:
+ *     summary: List modifier groups
+ *     tags:
+ *       - ModifierGroup
+ *     responses:
+ *       200:
+ *         description: Every modifier group with its options
+ */
+ModifierGroupRoutes.get(
+    "/list",
+    limiter,
+    requirePermission(Permission.VIEW_MENU_ITEMS),
+    async (req: Request, res: Response) => {
+        try {
+            const modifierGroups = await ModifierGroupModel.find()
+                .sort({ name: 1 })
+                .exec();
+            res.status(200).json({
+                result: "success",
+                modifierGroups,
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /modifier-group/get/{id}:
+ *   get:
+ *     summary: Get a modifier group
+ *     tags:
+ *       - ModifierGroup
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The modifier group
+ *       404:
+ *         description: Modifier group not found
+ */
+ModifierGroupRoutes.get(
+    "/get/:id",
+    limiter,
+    requirePermission(Permission.VIEW_MENU_ITEMS),
+    async (req: Request, res: Response) => {
+        try {
+            const modifierGroup = await ModifierGroupModel.findById(
+                req.params.id
+            ).exec();
+            if (!modifierGroup) {
+                throw ModifierGroupNotFound;
+            }
+            res.status(200).json({
+                result: "success",
+                modifierGroup,
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /modifier-group/update/{id}:
+ *   put:
+ *     summary: Replace a modifier group
+ *     description: Replace the settings and options of a group. Send the _id of options to keep, so sales keep pointing to the same option. Past sales are not affected, they keep a copy of the options chosen.
+ *     tags:
+ *       - ModifierGroup
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               selection:
+ *                 type: string
+ *                 enum: [single, multi]
+ *               min:
+ *                 type: integer
+ *               max:
+ *                 type: integer
+ *               required:
+ *                 type: boolean
+ *               options:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     _id:
+ *                       type: string
+ *                     name:
+ *                       type: string
+ *                     priceDelta:
+ *                       type: number
+ *                     isAvailable:
+ *                       type: boolean
+ *     responses:
+ *       200:
+ *         description: Modifier group updated
+ *       400:
+ *         description: Invalid group
+ *       404:
+ *         description: Modifier group not found
+ */
+ModifierGroupRoutes.put(
+    "/update/:id",
+    limiter,
+    requireRole(Role.EmployeeManager),
+    async (req: Request, res: Response) => {
+        try {
+            const modifierGroup = await ModifierGroupModel.findById(
+                req.params.id
+            ).exec();
+            if (!modifierGroup) {
+                throw ModifierGroupNotFound;
+            }
+
+            modifierGroup.set(parseModifierGroup(req.body));
+            await modifierGroup.save();
+
+            res.status(200).json({
+                result: "success",
+                message: "Modifier group updated successfully",
+                modifierGroup,
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /modifier-group/delete/{id}:
+ *   delete:
+ *     summary: Delete a modifier group
+ *     description: Delete a group that no menu item uses anymore.
+ *     tags:
+ *       - ModifierGroup
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Modifier group deleted
+ *       400:
+ *         description: Still attached to menu items
+ *       404:
+ *         description: Modifier group not found
+ */
+ModifierGroupRoutes.delete(
+    "/delete/:id",
+    limiter,
+    requireRole(Role.EmployeeManager),
+    async (req: Request, res: Response) => {
+        const { id } = req.params;
+
+        try {
+            const modifierGroup = await ModifierGroupModel.findById(id).exec();
+            if (!modifierGroup) {
+                throw ModifierGroupNotFound;
+            }
+
+            if (await MenuItemModel.exists({ modifierGroups: id })) {
+                throw ModifierGroupInUse;
+            }
+
+            await modifierGroup.deleteOne();
+            res.status(200).json({
+                result: "success",
+                message: "Modifier group deleted successfully",
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+export default ModifierGroupRoutes;
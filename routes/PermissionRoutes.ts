@@ -0,0 +1,512 @@
+import { Router, Request, Response } from "express";
+import { UpdateQuery } from "mongoose";
+
+import AccountModel from "../models/AccountModel";
+import PermissionOverrideModel, {
+    IPermissionOverride,
+} from "../models/PermissionOverrideModel";
+import BaseError from "../types/error";
+import { handleError } from "../helpers/errors";
+import { checkEmptyFields } from "../helpers/general";
+import {
+    hasPermission,
+    outranksRole,
+    getEffectivePermissions,
+    explainPermission,
+} from "../helpers/auth";
+import { getRolePermissions, getInheritedRoles } from "../helpers/roles";
+import { loadPermissionOverrides } from "../helpers/overrides";
+
+import { requirePermission, requireRole } from "../middleware/auth/RoleAuth";
+import limiter from "../middleware/RateLimiter";
+import { Role, Permission, isValidPermission } from "../types/role";
+
+const PermissionRoutes = Router();
+
+const AccountNotFound = new BaseError("Account not found", 404);
+const OverrideNotFound = new BaseError("Override not found", 404);
+const PermissionNotValid = new BaseError("Permission not valid", 400);
+const EffectNotValid = new BaseError("Effect must be grant or deny", 400);
+const ExpiryNotValid = new BaseError(
+    "expiresAt must be a date in the future",
+    400
+);
+const SelfOverride = new BaseError("Cannot change your own permissions", 403);
+const PermissionNotHeld = new BaseError(
+    "Cannot override a permission you do not hold",
+    403
+);
+const AccountOutranked = new BaseError(
+    "Cannot change the permissions of an account you do not outrank",
+    403
+);
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Permission
+ *     description: Per-account permission grants and denials
+ * /permission/overrides/{accountId}:
+ *   get:
+ *     summary: List permission overrides of an account
+ *     description: List the active grants and denials applied on top of the account role.
+ *     tags:
+ *       - Permission
+ *     parameters:
+ *       - in: path
+ *         name: accountId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Overrides of the account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 overrides:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       permission:
+ *                         type: string
+ *                         example: manage_inventory
+ *                       effect:
+ *                         type: string
+ *                         enum: [grant, deny]
+ *                       reason:
+ *                         type: string
+ *                         example: Covering inventory for the week
+ *                       expiresAt:
+ *                         type: string
+ *                         format: date-time
+ *       404:
+ *         description: Account not found
+ */
+PermissionRoutes.get(
+    "/overrides/:accountId",
+    limiter,
+    requirePermission(Permission.MANAGE_EMPLOYEES),
+    async (req: Request, res: Response) => {
+        try {
+            const { accountId } = req.params;
+            if (!(await AccountModel.exists({ _id: accountId }))) {
+                throw AccountNotFound;
+            }
+
+            const overrides = await PermissionOverrideModel.find({
+                account: accountId,
+                $or: [
+                    { expiresAt: { $exists: false } },
+                    { expiresAt: { $gt: new Date() } },
+                ],
+            }).exec();
+
+            res.status(200).json({
+                result: "success",
+                overrides,
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /permission/overrides/{accountId}:
+ *   post:
+ *     summary: Grant or deny a permission to an account
+ *     description: Add or replace the override of one permission for an account, optionally until a given date. Only permissions the caller holds can be overridden, and never on the caller's own account.
+ *     tags:
+ *       - Permission
+ *     parameters:
+ *       - in: path
+ *         name: accountId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - permission
+ *               - effect
+ *             properties:
+ *               permission:
+ *                 type: string
+ *                 example: manage_inventory
+ *               effect:
+ *                 type: string
+ *                 enum: [grant, deny]
+ *                 example: grant
+ *               reason:
+ *                 type: string
+ *                 example: Covering inventory for the week
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 example: 2024-11-01T00:00:00.000Z
+ *     responses:
+ *       200:
+ *         description: Override saved
+ *       400:
+ *         description: Invalid permission, effect or expiry
+ *       403:
+ *         description: Caller does not hold the permission or does not outrank the account role
+ *       404:
+ *         description: Account not found
+ */
+PermissionRoutes.post(
+    "/overrides/:accountId",
+    limiter,
+    requirePermission(Permission.MANAGE_EMPLOYEES),
+    async (req: Request, res: Response) => {
+        if (checkEmptyFields(["permission", "effect"], req.body)) {
+            res.status(400).json({
+                result: "error",
+                message: "Missing required fields",
+            });
+            return;
+        }
+
+        const { user, permission, effect, reason, expiresAt } = req.body;
+        const { accountId } = req.params as { accountId: string };
+
+        try {
+            if (!isValidPermission(permission)) {
+                throw PermissionNotValid;
+            }
+
+            if (effect !== "grant" && effect !== "deny") {
+                throw EffectNotValid;
+            }
+
+            let expiry: Date | undefined;
+            if (expiresAt) {
+                expiry = new Date(expiresAt);
+                if (isNaN(expiry.getTime()) || expiry <= new Date()) {
+                    throw ExpiryNotValid;
+                }
+            }
+
+            if (accountId === user.id) {
+                throw SelfOverride;
+            }
+
+            const granterOverrides = await loadPermissionOverrides(user.id);
+            if (!hasPermission(user.role, permission, granterOverrides)) {
+                throw PermissionNotHeld;
+            }
+
+            const account = await AccountModel.findById(accountId).exec();
+            if (!account) {
+                throw AccountNotFound;
+            }
+            if (!outranksRole(user.role, account.role, granterOverrides)) {
+                throw AccountOutranked;
+            }
+
+            const update: UpdateQuery<IPermissionOverride> = {
+                $set: {
+                    effect,
+                    reason,
+                    createdBy: user.id,
+                    createdAt: new Date(),
+                    ...(expiry && { expiresAt: expiry }),
+                },
+                ...(!expiry && { $unset: { expiresAt: "" } }),
+            };
+
+            const override = await PermissionOverrideModel.findOneAndUpdate(
+                { account: accountId, permission },
+                update,
+                { upsert: true, new: true }
+            ).exec();
+
+            res.status(200).json({
+                result: "success",
+                message: "Override saved",
+                override,
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /permission/overrides/{accountId}/{permission}:
+ *   delete:
+ *     summary: Remove a permission override
+ *     tags:
+ *       - Permission
+ *     parameters:
+ *       - in: path
+ *         name: accountId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: permission
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Override removed
+ *       400:
+ *         description: Invalid permission
+ *       403:
+ *         description: Caller does not hold the permission or does not outrank the account role
+ *       404:
+ *         description: Account or override not found
+ */
+PermissionRoutes.delete(
+    "/overrides/:accountId/:permission",
+    limiter,
+    requirePermission(Permission.MANAGE_EMPLOYEES),
+    async (req: Request, res: Response) => {
+        const { user } = req.body;
+        const { accountId, permission } = req.params as {
+            accountId: string;
+            permission: string;
+        };
+
+        try {
+            if (accountId === user.id) {
+                throw SelfOverride;
+            }
+
+            if (!isValidPermission(permission)) {
+                throw PermissionNotValid;
+            }
+
+            // lifting an override takes the same standing as setting it
+            const granterOverrides = await loadPermissionOverrides(user.id);
+            if (!hasPermission(user.role, permission, granterOverrides)) {
+                throw PermissionNotHeld;
+            }
+
+            const account = await AccountModel.findById(accountId).exec();
+            if (!account) {
+                throw AccountNotFound;
+            }
+            if (!outranksRole(user.role, account.role, granterOverrides)) {
+                throw AccountOutranked;
+            }
+
+            const override = await PermissionOverrideModel.findOneAndDelete({
+                account: accountId,
+                permission,
+            }).exec();
+            if (!override) {
+                throw OverrideNotFound;
+            }
+
+            res.status(200).json({
+                result: "success",
+                message: "Override removed",
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /permission/effective/{accountId}:
+ *   get:
+ *     summary: Effective permissions of an account
+ *     description: Show the permissions coming from the account role, the active overrides and the resulting permission set.
+ *     tags:
+ *       - Permission
+ *     parameters:
+ *       - in: path
+ *         name: accountId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Effective permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     role:
+ *                       type: string
+ *                       example: Employee
+ *                     rolePermissions:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     overrides:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     permissions:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       404:
+ *         description: Account not found
+ */
+PermissionRoutes.get(
+    "/effective/:accountId",
+    limiter,
+    requirePermission(Permission.MANAGE_EMPLOYEES),
+    async (req: Request, res: Response) => {
+        try {
+            const account = await AccountModel.findById(
+                req.params.accountId
+            ).exec();
+            if (!account) {
+                throw AccountNotFound;
+            }
+
+            const overrides = await loadPermissionOverrides(account.id);
+
+            res.status(200).json({
+                result: "success",
+                data: {
+                    role: account.role,
+                    rolePermissions: Array.from(
+                        new Set(getRolePermissions(account.role))
+                    ),
+                    overrides,
+                    permissions: getEffectivePermissions(
+                        account.role,
+                        overrides
+                    ),
+                },
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /permission/explain/{accountId}/{permission}:
+ *   get:
+ *     summary: Explain a permission check
+ *     description: Admin only. Tell whether an account has a permission and why, either through the Admin role, an account override or the chain of extended roles that carries it.
+ *     tags:
+ *       - Permission
+ *     parameters:
+ *       - in: path
+ *         name: accountId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: permission
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Result of the check
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     role:
+ *                       type: string
+ *                       example: WarehouseManager
+ *                     inheritedRoles:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: ["Employee"]
+ *                     permission:
+ *                       type: string
+ *                       example: view_menu
+ *                     granted:
+ *                       type: boolean
+ *                       example: true
+ *                     reason:
+ *                       type: string
+ *                       example: Granted by role Employee
+ *                     chain:
+ *                       type: array
+ *                       description: Roles walked through extendFrom, ending with the one that lists the permission
+ *                       items:
+ *                         type: string
+ *                       example: ["WarehouseManager", "Employee"]
+ *                     override:
+ *                       type: object
+ *       400:
+ *         description: Permission not valid
+ *       404:
+ *         description: Account not found
+ */
+PermissionRoutes.get(
+    "/explain/:accountId/:permission",
+    limiter,
+    requireRole(Role.Admin),
+    async (req: Request, res: Response) => {
+        const { accountId, permission } = req.params as {
+            accountId: string;
+            permission: string;
+        };
+
+        try {
+            if (!isValidPermission(permission)) {
+                throw PermissionNotValid;
+            }
+
+            const account = await AccountModel.findById(accountId).exec();
+            if (!account) {
+                throw AccountNotFound;
+            }
+
+            const overrides = await loadPermissionOverrides(account.id);
+
+            res.status(200).json({
+                result: "success",
+                data: {
+                    role: account.role,
+                    inheritedRoles: getInheritedRoles(account.role),
+                    permission,
+                    ...explainPermission(
+                        account.role,
+                        permission as Permission,
+                        overrides
+                    ),
+                },
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+export default PermissionRoutes;
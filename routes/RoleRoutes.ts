@@ -0,0 +1,434 @@
+import { Router, Request, Response } from "express";
+
+import RoleModel from "../models/RoleModel";
+import AccountModel from "../models/AccountModel";
+import BaseError from "../types/error";
+import { handleError } from "../helpers/errors";
+import { checkEmptyFields } from "../helpers/general";
+import {
+    loadRoles,
+    getRoleDefinition,
+    getRoleNames,
+    getRolePermissions,
+    findInheritanceCycle,
+} from "../helpers/roles";
+
+import { requireRole } from "../middleware/auth/RoleAuth";
+import limiter from "../middleware/RateLimiter";
+import { Role, isValidPermission } from "../types/role";
+
+const RoleRoutes = Router();
+
+const RoleExisted = new BaseError("Role already exists", 400);
+const RoleNotFound = new BaseError("Role not found", 404);
+const RoleNameNotValid = new BaseError("Role name not valid", 400);
+const AdminRoleLocked = new BaseError("The Admin role cannot be changed", 400);
+const SystemRoleLocked = new BaseError("Built-in roles cannot be deleted", 400);
+const RoleInUse = new BaseError(
+    "Role is still assigned to accounts or extended by other roles",
+    400
+);
+
+/**
+ * Check the inheritance and permissions sent for a role, throwing on unknown
+ * parents, unknown permissions or an inheritance loop.
+ */
+function validateRoleDefinition(
+    name: string,
+    extendFrom: string[],
+    permissions: string[]
+) {
+    if (!Array.isArray(extendFrom) || !Array.isArray(permissions)) {
+        throw new BaseError("extendFrom and permissions must be arrays", 400);
+    }
+
+    const unknownRoles = extendFrom.filter((role) => !getRoleDefinition(role));
+    if (unknownRoles.length > 0) {
+        throw new BaseError(`Unknown roles: ${unknownRoles.join(", ")}`, 400);
+    }
+
+    const unknownPermissions = permissions.filter(
+        (permission) => !isValidPermission(permission)
+    );
+    if (unknownPermissions.length > 0) {
+        throw new BaseError(
+            `Unknown permissions: ${unknownPermissions.join(", ")}`,
+            400
+        );
+    }
+
+    const cycle = findInheritanceCycle(name, extendFrom);
+    if (cycle) {
+        throw new BaseError(
+            `Role inheritance cycle: ${cycle.join(" -> ")}`,
+            400
+        );
+    }
+}
+
+function serializeRole(role: {
+    name: string;
+    isManager: boolean;
+    extendFrom: string[];
+    permissions: string[];
+    isSystem: boolean;
+}) {
+    return {
+        name: role.name,
+        isManager: role.isManager,
+        extendFrom: role.extendFrom,
+        permissions: role.permissions,
+        effectivePermissions: Array.from(
+            new Set(getRolePermissions(role.name))
+        ),
+        isSystem: role.isSystem,
+    };
+}
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Role
+ *     description: Role and permission management, Admin only
+ * /role/list:
+ *   get:
+ *     summary: List roles
+ *     description: List every role with its own and inherited permissions.
+ *     tags:
+ *       - Role
+ *     responses:
+ *       200:
+ *         description: List of roles
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 roles:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       name:
+ *                         type: string
+ *                         example: WarehouseManager
+ *                       isManager:
+ *                         type: boolean
+ *                         example: true
+ *                       extendFrom:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                       permissions:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                       effectivePermissions:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                       isSystem:
+ *                         type: boolean
+ *                         example: true
+ */
+RoleRoutes.get(
+    "/list",
+    limiter,
+    requireRole(Role.Admin),
+    async (req: Request, res: Response) => {
+        try {
+            const roles = await RoleModel.find().sort({ name: 1 }).exec();
+            res.status(200).json({
+                result: "success",
+                roles: roles.map(serializeRole),
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /role/get/{name}:
+ *   get:
+ *     summary: Get a role
+ *     tags:
+ *       - Role
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The role
+ *       404:
+ *         description: Role not found
+ */
+RoleRoutes.get(
+    "/get/:name",
+    limiter,
+    requireRole(Role.Admin),
+    async (req: Request, res: Response) => {
+        try {
+            const role = await RoleModel.findOne({
+                name: req.params.name,
+            }).exec();
+            if (!role) {
+                throw RoleNotFound;
+            }
+            res.status(200).json({
+                result: "success",
+                role: serializeRole(role),
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /role/add:
+ *   post:
+ *     summary: Create a role
+ *     description: Create a role. Parent roles in extendFrom must exist and may not lead back to the new role.
+ *     tags:
+ *       - Role
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - permissions
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Barista Lead
+ *               isManager:
+ *                 type: boolean
+ *                 example: false
+ *               extendFrom:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["Employee"]
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["manage_schedules"]
+ *     responses:
+ *       200:
+ *         description: Role created
+ *       400:
+ *         description: Invalid role, unknown permission or inheritance cycle
+ */
+RoleRoutes.post(
+    "/add",
+    limiter,
+    requireRole(Role.Admin),
+    async (req: Request, res: Response) => {
+        if (checkEmptyFields(["name", "permissions"], req.body)) {
+            res.status(400).json({
+                result: "error",
+                message: "Missing required fields",
+            });
+            return;
+        }
+
+        const { isManager, extendFrom = [], permissions } = req.body;
+        const name =
+            typeof req.body.name === "string" ? req.body.name.trim() : "";
+
+        try {
+            // starts with a letter, inner spaces allowed, like Barista Lead
+            if (!/^[A-Za-z]([\w -]*\w)?$/.test(name)) {
+                throw RoleNameNotValid;
+            }
+
+            // names differing only in case would be mistaken for each other
+            const taken = getRoleNames().some(
+                (existing) => existing.toLowerCase() === name.toLowerCase()
+            );
+            if (
+                taken ||
+                (await RoleModel.exists({ name }).collation({
+                    locale: "en",
+                    strength: 2,
+                }))
+            ) {
+                throw RoleExisted;
+            }
+
+            validateRoleDefinition(name, extendFrom, permissions);
+
+            const role = await RoleModel.create({
+                name,
+                isManager: !!isManager,
+                extendFrom,
+                permissions,
+                isSystem: false,
+            });
+            await loadRoles();
+
+            res.status(200).json({
+                result: "success",
+                message: "Role added successfully",
+                role: serializeRole(role),
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /role/update/{name}:
+ *   put:
+ *     summary: Update a role
+ *     description: Change the manager flag, parents or permissions of a role. The Admin role cannot be changed.
+ *     tags:
+ *       - Role
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               isManager:
+ *                 type: boolean
+ *               extendFrom:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *       400:
+ *         description: Invalid role, unknown permission or inheritance cycle
+ *       404:
+ *         description: Role not found
+ */
+RoleRoutes.put(
+    "/update/:name",
+    limiter,
+    requireRole(Role.Admin),
+    async (req: Request, res: Response) => {
+        const { name } = req.params as { name: string };
+
+        try {
+            if (name === Role.Admin) {
+                throw AdminRoleLocked;
+            }
+
+            const role = await RoleModel.findOne({ name }).exec();
+            if (!role) {
+                throw RoleNotFound;
+            }
+
+            const { isManager, extendFrom, permissions } = req.body;
+            validateRoleDefinition(
+                name,
+                extendFrom ?? role.extendFrom,
+                permissions ?? role.permissions
+            );
+
+            if (isManager !== undefined) role.isManager = !!isManager;
+            if (extendFrom !== undefined) role.extendFrom = extendFrom;
+            if (permissions !== undefined) role.permissions = permissions;
+            role.updatedAt = new Date();
+            await role.save();
+            await loadRoles();
+
+            res.status(200).json({
+                result: "success",
+                message: "Role updated successfully",
+                role: serializeRole(role),
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /role/delete/{name}:
+ *   delete:
+ *     summary: Delete a role
+ *     description: Delete a custom role. Built-in roles, roles still assigned to an account and roles other roles extend cannot be deleted.
+ *     tags:
+ *       - Role
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Role deleted
+ *       400:
+ *         description: Role is built-in or still in use
+ *       404:
+ *         description: Role not found
+ */
+RoleRoutes.delete(
+    "/delete/:name",
+    limiter,
+    requireRole(Role.Admin),
+    async (req: Request, res: Response) => {
+        const { name } = req.params;
+
+        try {
+            const role = await RoleModel.findOne({ name }).exec();
+            if (!role) {
+                throw RoleNotFound;
+            }
+
+            if (role.isSystem) {
+                throw SystemRoleLocked;
+            }
+
+            const inUse =
+                (await AccountModel.exists({ role: name })) ||
+                (await RoleModel.exists({ extendFrom: name }));
+            if (inUse) {
+                throw RoleInUse;
+            }
+
+            await role.deleteOne();
+            await loadRoles();
+
+            res.status(200).json({
+                result: "success",
+                message: "Role deleted successfully",
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+export default RoleRoutes;
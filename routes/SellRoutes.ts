@@ -1,8 +1,24 @@
 import { Router, Request, Response } from "express";
 import { compare, hash } from "bcrypt";
+import { Types } from "mongoose";
 
 import SellModel from "../models/SellModel";
 import { handleError } from "../helpers/errors";
+import { roundMoney, buildSellLines, computeSellTotals } from "../helpers/sell";
+import { loadSellPricing } from "../helpers/tax";
+import {
+    redeemVoucher,
+    preparePayment,
+    splitAmount,
+} from "../helpers/payments";
+import {
+    readReason,
+    planRefund,
+    needsRefundApproval,
+    issueCreditNote,
+    voidSell,
+} from "../helpers/refunds";
+import CreditNoteModel from "../models/CreditNoteModel";
 
 import {
     requireRole,
@@ -12,11 +28,59 @@ import {
 } from "../middleware/auth/RoleAuth";
 import limiter from "../middleware/RateLimiter";
 import { checkEmptyFields } from "../helpers/general";
-import { Role } from "../types/role";
-import VoucherModel from "../models/VoucherModels";
+import { Permission, Role } from "../types/role";
+import {
+    SellStatus,
+    OrderType,
+    isValidSellStatus,
+    isValidOrderType,
+    canTransition,
+    CreditNoteStatus,
+} from "../types/sell";
+import BaseError from "../types/error";
 
 const SellRoutes = Router();
 
+const SellNotFound = new BaseError("Not found", 404);
+const OrderTypeNotValid = new BaseError(
+    `orderType must be one of ${Object.values(OrderType).join(", ")}`,
+    400
+);
+const StatusNotValid = new BaseError(
+    `Status must be one of ${Object.values(SellStatus).join(", ")}`,
+    400
+);
+const StatusChanged = new BaseError(
+    "The sale status changed in the meantime, reload it and try again",
+    409
+);
+const SellChanged = new BaseError(
+    "The sale changed in the meantime, reload it and try again",
+    409
+);
+const NotFullyPaid = new BaseError(
+    "Payments do not cover the total of the sale yet",
+    409
+);
+const SellClosed = new BaseError("The sale is already paid or cancelled", 409);
+const NothingDue = new BaseError("Payments already cover the total", 409);
+const UseVoid = new BaseError(
+    "Cancel a sale through /sell/{id}/void, which records the reason",
+    400
+);
+const NotRefundable = new BaseError(
+    "Only paid sales can be refunded, void the sale instead",
+    409
+);
+const PeriodNotValid = new BaseError(
+    "from and to must be dates, from before to",
+    400
+);
+const WaysNotValid = new BaseError(
+    "ways must be a whole number between 1 and 50",
+    400
+);
+
 /**
  * @swagger
  * /sell:
@@ -70,6 +134,12 @@ SellRoutes.get("/", (req: Request, res: Response) => {
  *           example: 10
  *         required: true
  *         description: The number of sell entries per page
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, preparing, ready, paid, cancelled]
+ *         description: Only list sales in this status
  *     responses:
  *       200:
  *         description: A paginated list of sell entries
@@ -98,6 +168,9 @@ SellRoutes.get("/", (req: Request, res: Response) => {
  *                       sellDate:
  *                         type: string
  *                         example: 2020-11-01T00:00:00.000Z
+ *                       status:
+ *                         type: string
+ *                         example: pending
  *                       values:
  *                         type: array
  *                         items:
@@ -171,10 +244,22 @@ SellRoutes.get(
             return;
         }
 
+        const { status } = req.query;
+        if (status !== undefined) {
+            if (typeof status !== "string" || !isValidSellStatus(status)) {
+                handleError(StatusNotValid, res);
+                return;
+            }
+        }
+        const filter = status ? { status: status as SellStatus } : {};
+
         try {
-            const sellItems = SellModel.find().limit(limit).skip(skip).exec();
+            const sellItems = await SellModel.find(filter)
+                .limit(limit)
+                .skip(skip)
+                .exec();
 
-            const count = await SellModel.countDocuments();
+            const count = await SellModel.countDocuments(filter);
 
             res.status(200).json({
                 result: "success",
@@ -197,7 +282,7 @@ SellRoutes.get(
  * /sell/add:
  *   post:
  *     summary: Add a new sell item
- *     description: Add a new sell item
+ *     description: Add a new sell item. Each line refers to a menu item, whose name, price and unit are copied onto the sale; unavailable items are rejected. Totals are computed on the server, with the tax rate of each item category and, for dine-in orders, the service charge.
  *     tags:
  *       - Sell
  *     requestBody:
@@ -216,23 +301,32 @@ SellRoutes.get(
  *               sellDate:
  *                 type: string
  *                 example: 2020-11-01T00:00:00.000Z
+ *               voucher:
+ *                 type: string
+ *                 description: Voucher taken off the order, used up by the sale
+ *                 example: 5f9f1c9f336f08617c7e90a2
+ *               orderType:
+ *                 type: string
+ *                 enum: [dine-in, takeaway]
+ *                 default: takeaway
+ *                 description: Dine-in orders pay the service charge
  *               values:
  *                 type: array
  *                 items:
  *                   type: object
  *                   properties:
- *                     name:
+ *                     menuItem:
  *                       type: string
- *                       example: Product A
- *                     price:
- *                       type: number
- *                       example: 10.5
+ *                       example: 5f9f1c9f336f08617c7e90a3
  *                     quant:
- *                       type: number
- *                       example: 100
- *                     unit:
- *                       type: string
- *                       example: kg
+ *                       type: integer
+ *                       example: 2
+ *                     modifiers:
+ *                       type: array
+ *                       description: Ids of the chosen options, from the modifier groups of the menu item
+ *                       items:
+ *                         type: string
+ *                       example: ["5f9f1c9f336f08617c7e90a4"]
  *     responses:
  *       200:
  *         description: The sell item was added successfully
@@ -247,8 +341,104 @@ SellRoutes.get(
  *                 message:
  *                   type: string
  *                   example: Sell added successfully
+ *                 sellItem:
+ *                   type: object
+ *                   properties:
+ *                     values:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           menuItem:
+ *                             type: string
+ *                             example: 5f9f1c9f336f08617c7e90a3
+ *                           name:
+ *                             type: string
+ *                             example: Latte
+ *                           price:
+ *                             type: number
+ *                             example: 3.5
+ *                           quant:
+ *                             type: integer
+ *                             example: 2
+ *                           unit:
+ *                             type: string
+ *                             example: cup
+ *                           modifiers:
+ *                             type: array
+ *                             items:
+ *                               type: object
+ *                               properties:
+ *                                 groupName:
+ *                                   type: string
+ *                                   example: Milk
+ *                                 name:
+ *                                   type: string
+ *                                   example: Oat milk
+ *                                 priceDelta:
+ *                                   type: number
+ *                                   example: 0.5
+ *                           total:
+ *                             type: number
+ *                             example: 8
+ *                           discount:
+ *                             type: number
+ *                             example: 1
+ *                           taxName:
+ *                             type: string
+ *                             example: VAT 10%
+ *                           taxRate:
+ *                             type: number
+ *                             example: 10
+ *                           net:
+ *                             type: number
+ *                             example: 6.36
+ *                           tax:
+ *                             type: number
+ *                             example: 0.64
+ *                     subtotal:
+ *                       type: number
+ *                       example: 8
+ *                     discount:
+ *                       type: number
+ *                       example: 1
+ *                     orderType:
+ *                       type: string
+ *                       example: dine-in
+ *                     pricesIncludeTax:
+ *                       type: boolean
+ *                       example: true
+ *                     serviceChargeRate:
+ *                       type: number
+ *                       example: 5
+ *                     serviceCharge:
+ *                       type: number
+ *                       example: 0.32
+ *                     taxTotal:
+ *                       type: number
+ *                       example: 0.64
+ *                     taxes:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           name:
+ *                             type: string
+ *                             example: VAT 10%
+ *                           rate:
+ *                             type: number
+ *                             example: 10
+ *                           net:
+ *                             type: number
+ *                             example: 6.36
+ *                           tax:
+ *                             type: number
+ *                             example: 0.64
+ *                     finalValue:
+ *                       type: number
+ *                       example: 7.32
  *       400:
- *         description: Invalid request parameters
+ *         description: Missing fields, unknown or expired voucher, or lines with an unknown or unavailable menu item (listed in errors)
  *         content:
  *           application/json:
  *             schema:
@@ -260,6 +450,8 @@ SellRoutes.get(
  *                 message:
  *                   type: string
  *                   example: Missing required fields
+ *       409:
+ *         description: Voucher already used
  */
 SellRoutes.post(
     "/add",
@@ -280,38 +472,67 @@ SellRoutes.post(
             return;
         }
 
-        const { customerName, phoneNumber, sellDate, values, voucher } =
-            req.body;
-        let discount = 0;
-
-        if (voucher) {
-            const voucherDoc = await VoucherModel.findById(voucher);
-            if (voucherDoc) {
-                discount = voucherDoc.value;
-            }
-        }
-
-        const totalValue = values.reduce(
-            (acc, item) => acc + item.price * item.quant,
-            0
-        );
-        const finalValue = totalValue - discount;
-
-        SellModel.create({
+        const {
+            user,
             customerName,
             phoneNumber,
             sellDate,
             values,
             voucher,
-            finalValue,
-        })
-            .then(() => {
-                res.status(200).json({
-                    result: "success",
-                    message: "Sell added successfully",
-                });
-            })
-            .catch((err) => handleError(err, res));
+            orderType = OrderType.Takeaway,
+        } = req.body;
+
+        try {
+            if (!isValidOrderType(orderType)) {
+                throw OrderTypeNotValid;
+            }
+
+            const lines = await buildSellLines(values);
+            const pricing = await loadSellPricing(
+                Array.from(new Set(lines.map((line) => line.category))),
+                orderType
+            );
+
+            // the voucher is used up by the sale, so it cannot discount or
+            // pay for another one, nor pay for this one on top
+            const sellId = new Types.ObjectId();
+            let discount = 0;
+            let release = async () => {};
+            if (voucher) {
+                const redeemed = await redeemVoucher(
+                    voucher,
+                    sellId.toString()
+                );
+                discount = redeemed.voucher.value;
+                release = redeemed.release;
+            }
+
+            const sellItem = await SellModel.create({
+                _id: sellId,
+                customerName,
+                phoneNumber,
+                sellDate,
+                values: lines,
+                voucher,
+                orderType,
+                ...computeSellTotals(lines, discount, pricing),
+                status: SellStatus.Pending,
+                statusHistory: [
+                    { to: SellStatus.Pending, at: new Date(), by: user.id },
+                ],
+            }).catch(async (err) => {
+                await release();
+                throw err;
+            });
+
+            res.status(200).json({
+                result: "success",
+                message: "Sell added successfully",
+                sellItem,
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
     }
 );
 
@@ -356,6 +577,14 @@ SellRoutes.post(
  *                     sellDate:
  *                       type: string
  *                       example: 2020-01-01T00:00:00.000Z
+ *                     status:
+ *                       type: string
+ *                       example: paid
+ *                     statusHistory:
+ *                       type: array
+ *                       description: Every status change with when and by whom, the handler populated with name and email. The cancellation also has the reason and note of the void
+ *                       items:
+ *                         type: object
  *                     values:
  *                       type: array
  *                       items:
@@ -390,6 +619,7 @@ SellRoutes.get(
     requireRole(Role.Employee),
     (req: Request, res: Response) => {
         SellModel.findById(req.params.id)
+            .populate("statusHistory.by", "name email")
             .then((sellItem) => {
                 if (!sellItem) {
                     res.status(404).json({
@@ -409,22 +639,35 @@ SellRoutes.get(
 
 /**
  * @swagger
- * /sell/delete/{id}:
- *   delete:
- *     summary: Delete a sell entry by id
- *     description: Delete a sell entry in the database using the provided id.
+ * /sell/{id}/transition:
+ *   post:
+ *     summary: Move a sale to another status
+ *     description: "Change the status of a sale, recording when and by whom. Allowed moves are pending to preparing, preparing to ready and ready to paid. Paid and cancelled are final. Sales are cancelled through /sell/{id}/void, which records the reason."
  *     tags:
  *       - Sell
  *     parameters:
  *       - in: path
  *         name: id
+ *         required: true
  *         schema:
  *           type: string
- *         required: true
  *         description: The id of the sell entry
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [pending, preparing, ready, paid]
+ *                 example: preparing
  *     responses:
  *       200:
- *         description: Sell deleted successfully
+ *         description: Status changed
  *         content:
  *           application/json:
  *             schema:
@@ -435,9 +678,159 @@ SellRoutes.get(
  *                   example: success
  *                 message:
  *                   type: string
- *                   example: Sell deleted successfully
+ *                   example: Sell status updated
+ *                 sellItem:
+ *                   type: object
+ *                   properties:
+ *                     _id:
+ *                       type: string
+ *                       example: 5f9f1c5f86a7a707d0a7a1c5
+ *                     status:
+ *                       type: string
+ *                       example: preparing
+ *                     statusHistory:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           from:
+ *                             type: string
+ *                             example: pending
+ *                           to:
+ *                             type: string
+ *                             example: preparing
+ *                           at:
+ *                             type: string
+ *                             example: 2020-01-01T00:05:00.000Z
+ *                           by:
+ *                             type: string
+ *                             example: 5f9f1c5f86a7a707d0a7a1c6
+ *       400:
+ *         description: Unknown status, or cancelled (use the void endpoint)
  *       404:
  *         description: Sell entry not found
+ *       409:
+ *         description: The sale cannot move to that status from its current one, or is marked paid before payments cover the total
+ */
+SellRoutes.post(
+    "/:id/transition",
+    limiter,
+    requireRole(Role.Employee),
+    async (req: Request, res: Response) => {
+        const { user, status } = req.body;
+        const { id } = req.params as { id: string };
+
+        try {
+            if (typeof status !== "string" || !isValidSellStatus(status)) {
+                throw StatusNotValid;
+            }
+
+            if (status === SellStatus.Cancelled) {
+                throw UseVoid;
+            }
+
+            const sellItem = await SellModel.findById(id).exec();
+            if (!sellItem) {
+                throw SellNotFound;
+            }
+
+            const from = sellItem.status;
+            if (!canTransition(from, status)) {
+                throw new BaseError(
+                    `Cannot move a sale from ${from} to ${status}`,
+                    409
+                );
+            }
+
+            if (
+                status === SellStatus.Paid &&
+                sellItem.amountPaid < sellItem.finalValue
+            ) {
+                throw NotFullyPaid;
+            }
+
+            // only applies if nobody moved the sale since it was read
+            const updated = await SellModel.findOneAndUpdate(
+                { _id: id, status: from },
+                {
+                    $set: { status },
+                    $push: {
+                        statusHistory: {
+                            from,
+                            to: status,
+                            at: new Date(),
+                            by: user.id,
+                        },
+                    },
+                },
+                { new: true }
+            ).exec();
+            if (!updated) {
+                throw StatusChanged;
+            }
+
+            res.status(200).json({
+                result: "success",
+                message: "Sell status updated",
+                sellItem: updated,
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /sell/{id}/payments:
+ *   post:
+ *     summary: Record a payment on a sale
+ *     description: "Add a payment towards the total of a sale that is neither paid nor cancelled. A bill can be split over several payments, by method and by person (payer). Cash takes the amount tendered and gives change; card, e-wallet and store credit take an amount no greater than what is due. A voucher pays up to its value and can only be used once. Marking the sale paid requires payments to cover the total."
+ *     tags:
+ *       - Sell
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - method
+ *             properties:
+ *               method:
+ *                 type: string
+ *                 enum: [cash, card, e-wallet, voucher, store-credit]
+ *                 example: cash
+ *               amount:
+ *                 type: number
+ *                 description: Amount to pay, for card, e-wallet and store credit
+ *                 example: 4.5
+ *               tendered:
+ *                 type: number
+ *                 description: Cash handed over, for cash
+ *                 example: 10
+ *               payer:
+ *                 type: string
+ *                 description: Who pays this part of the bill
+ *                 example: Jane
+ *               reference:
+ *                 type: string
+ *                 description: Card or e-wallet transaction reference
+ *               voucher:
+ *                 type: string
+ *                 description: Voucher id, for voucher
+ *               customer:
+ *                 type: string
+ *                 description: Customer id whose store credit is used, for store credit
+ *     responses:
+ *       200:
+ *         description: Payment recorded
  *         content:
  *           application/json:
  *             schema:
@@ -445,33 +838,174 @@ SellRoutes.get(
  *               properties:
  *                 result:
  *                   type: string
- *                   example: error
+ *                   example: success
  *                 message:
  *                   type: string
- *                   example: Not found
+ *                   example: Payment recorded
+ *                 change:
+ *                   type: number
+ *                   example: 5.5
+ *                 balanceDue:
+ *                   type: number
+ *                   example: 0
+ *                 sellItem:
+ *                   type: object
+ *       400:
+ *         description: Invalid method, amount, voucher or customer, or not enough store credit
+ *       404:
+ *         description: Sell entry not found
+ *       409:
+ *         description: Sale already paid or cancelled, nothing left to pay, voucher already used, or sale changed meanwhile
  */
-SellRoutes.delete(
-    "/delete/:id",
+SellRoutes.post(
+    "/:id/payments",
     limiter,
     requireRole(Role.Employee),
-    (req: Request, res: Response) => {
-        SellModel.findByIdAndDelete(req.params.id)
-            .then(() => {
-                res.status(200).json({
-                    result: "success",
-                    message: "Sell deleted successfully",
-                });
-            })
-            .catch((err) => handleError(err, res));
+    async (req: Request, res: Response) => {
+        const { user } = req.body;
+        const { id } = req.params as { id: string };
+
+        try {
+            const sellItem = await SellModel.findById(id).exec();
+            if (!sellItem) {
+                throw SellNotFound;
+            }
+            if (
+                sellItem.status === SellStatus.Paid ||
+                sellItem.status === SellStatus.Cancelled
+            ) {
+                throw SellClosed;
+            }
+
+            const due = roundMoney(sellItem.finalValue - sellItem.amountPaid);
+            if (due <= 0) {
+                throw NothingDue;
+            }
+
+            const { payment, release } = await preparePayment(
+                req.body,
+                due,
+                sellItem.id,
+                user.id
+            );
+
+            // only applies if no other payment or status change got in first
+            const updated = await SellModel.findOneAndUpdate(
+                {
+                    _id: id,
+                    amountPaid: sellItem.amountPaid,
+                    status: { $nin: [SellStatus.Paid, SellStatus.Cancelled] },
+                },
+                {
+                    $push: { payments: payment },
+                    $set: {
+                        amountPaid: roundMoney(
+                            sellItem.amountPaid + payment.amount
+                        ),
+                    },
+                },
+                { new: true }
+            ).exec();
+            if (!updated) {
+                await release();
+                throw SellChanged;
+            }
+
+            res.status(200).json({
+                result: "success",
+                message: "Payment recorded",
+                change: payment.change ?? 0,
+                balanceDue: roundMoney(updated.finalValue - updated.amountPaid),
+                sellItem: updated,
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
     }
 );
 
 /**
  * @swagger
- * /sell/update/{id}:
- *   put:
- *     summary: Update a sell entry by id
- *     description: Update a sell entry in the database using the provided id and data.
+ * /sell/{id}/split:
+ *   get:
+ *     summary: Split what is left to pay between people
+ *     description: Share the amount still due on a sale evenly, to the cent, between a number of people. Each share can then be paid with its own payment.
+ *     tags:
+ *       - Sell
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: ways
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           example: 3
+ *     responses:
+ *       200:
+ *         description: Shares of the amount due
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 balanceDue:
+ *                   type: number
+ *                   example: 10
+ *                 shares:
+ *                   type: array
+ *                   items:
+ *                     type: number
+ *                   example: [3.34, 3.33, 3.33]
+ *       400:
+ *         description: Invalid number of people
+ *       404:
+ *         description: Sell entry not found
+ */
+SellRoutes.get(
+    "/:id/split",
+    limiter,
+    requireRole(Role.Employee),
+    async (req: Request, res: Response) => {
+        const ways = Number(req.query.ways);
+
+        try {
+            if (!Number.isInteger(ways) || ways < 1 || ways > 50) {
+                throw WaysNotValid;
+            }
+
+            const sellItem = await SellModel.findById(req.params.id).exec();
+            if (!sellItem) {
+                throw SellNotFound;
+            }
+
+            const balanceDue = Math.max(
+                roundMoney(sellItem.finalValue - sellItem.amountPaid),
+                0
+            );
+            res.status(200).json({
+                result: "success",
+                balanceDue,
+                shares: splitAmount(balanceDue, ways),
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /sell/{id}/void:
+ *   post:
+ *     summary: Void a sale before it is paid
+ *     description: "Cancel a sale that is not paid yet, with a reason. Payments already taken are handed back and listed on a credit note. When that brings what was given back on the sale above the approval threshold (REFUND_APPROVAL_THRESHOLD) and the caller lacks approve_refunds, the void waits for approval like a refund, see /credit-note/approve/{id}, and the sale stays open until then. Sales are never deleted."
  *     tags:
  *       - Sell
  *     parameters:
@@ -480,43 +1014,137 @@ SellRoutes.delete(
  *         required: true
  *         schema:
  *           type: string
- *         description: The id of the sell entry to update
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
+ *             required:
+ *               - reason
  *             properties:
- *               customerName:
+ *               reason:
  *                 type: string
- *                 example: John Doe
- *               phoneNumber:
+ *                 enum: [customer-request, wrong-order, quality-issue, duplicate, pricing-error, other]
+ *                 example: wrong-order
+ *               note:
  *                 type: string
- *                 example: 123-456-7890
- *               sellDate:
+ *                 description: Required for reason other
+ *     responses:
+ *       200:
+ *         description: Sale voided or void waiting for approval
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Sell voided
+ *                 creditNote:
+ *                   type: object
+ *                   nullable: true
+ *                   description: The payments handed back, null when nothing was paid
+ *                   properties:
+ *                     status:
+ *                       type: string
+ *                       enum: [pending, approved]
+ *       400:
+ *         description: Invalid reason
+ *       404:
+ *         description: Sell entry not found
+ *       409:
+ *         description: Sale already paid or cancelled, or changed meanwhile
+ */
+SellRoutes.post(
+    "/:id/void",
+    limiter,
+    requireRole(Role.Employee),
+    async (req: Request, res: Response) => {
+        const { user } = req.body;
+
+        try {
+            const sellItem = await SellModel.findById(req.params.id).exec();
+            if (!sellItem) {
+                throw SellNotFound;
+            }
+
+            const creditNote = await voidSell(sellItem, req.body, user);
+
+            res.status(200).json({
+                result: "success",
+                message:
+                    creditNote?.status === CreditNoteStatus.Pending
+                        ? "Void waiting for approval"
+                        : "Sell voided",
+                creditNote,
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /sell/{id}/refund:
+ *   post:
+ *     summary: Refund a paid sale
+ *     description: "Refund some lines of a paid sale, a plain amount, or when neither is given everything not refunded yet. Every refund creates a credit note, saved before any money is given back. When what was already refunded on the sale, plus the refunds waiting for approval, plus this one goes above the approval threshold (REFUND_APPROVAL_THRESHOLD) and the caller lacks approve_refunds, the refund waits for approval, see /credit-note/approve/{id}; the others are applied at once."
+ *     tags:
+ *       - Sell
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *               - method
+ *             properties:
+ *               reason:
  *                 type: string
- *                 example: 2020-01-01
- *               values:
+ *                 enum: [customer-request, wrong-order, quality-issue, duplicate, pricing-error, other]
+ *                 example: quality-issue
+ *               note:
+ *                 type: string
+ *                 description: Required for reason other
+ *               method:
+ *                 type: string
+ *                 enum: [cash, card, e-wallet, store-credit]
+ *                 example: card
+ *               customer:
+ *                 type: string
+ *                 description: Customer id to credit, for store credit. Must be the customer who paid the sale with store credit, or the one with its phone number
+ *               lines:
  *                 type: array
  *                 items:
  *                   type: object
  *                   properties:
- *                     name:
- *                       type: string
- *                       example: Product A
- *                     price:
- *                       type: number
- *                       example: 10.99
+ *                     line:
+ *                       type: integer
+ *                       description: Index of the line in the sale values
+ *                       example: 0
  *                     quant:
- *                       type: number
- *                       example: 10
- *                     unit:
- *                       type: string
- *                       example: kg
+ *                       type: integer
+ *                       example: 1
+ *               amount:
+ *                 type: number
+ *                 description: Refund a plain amount instead of lines
+ *                 example: 2
  *     responses:
  *       200:
- *         description: Sell updated successfully
+ *         description: Refund applied or waiting for approval
  *         content:
  *           application/json:
  *             schema:
@@ -525,40 +1153,97 @@ SellRoutes.delete(
  *                 result:
  *                   type: string
  *                   example: success
- *                 sellItem:
+ *                 message:
+ *                   type: string
+ *                   example: Refund applied
+ *                 creditNote:
  *                   type: object
  *                   properties:
- *                     _id:
- *                       type: string
- *                       example: 5f9f1c5f86a7a707d0a7a1c5
- *                     customerName:
- *                       type: string
- *                       example: John Doe
- *                     phoneNumber:
+ *                     number:
  *                       type: string
- *                       example: 123-456-7890
- *                     sellDate:
+ *                       example: CN-000042
+ *                     amount:
+ *                       type: number
+ *                       example: 4.5
+ *                     status:
  *                       type: string
- *                       example: 2020-01-01T00:00:00.000Z
- *                     values:
- *                       type: array
- *                       items:
- *                         type: object
- *                         properties:
- *                           name:
- *                             type: string
- *                             example: Product A
- *                           price:
- *                             type: number
- *                             example: 10.99
- *                           quant:
- *                             type: number
- *                             example: 10
- *                           unit:
- *                             type: string
- *                             example: kg
+ *                       enum: [pending, approved]
+ *       400:
+ *         description: Invalid reason, lines, amount, method or customer
  *       404:
- *         description: Sell item not found
+ *         description: Sell entry not found
+ *       409:
+ *         description: Sale not paid, nothing left to refund, or changed meanwhile
+ */
+SellRoutes.post(
+    "/:id/refund",
+    limiter,
+    requireRole(Role.Employee),
+    async (req: Request, res: Response) => {
+        const { user } = req.body;
+
+        try {
+            const sellItem = await SellModel.findById(req.params.id).exec();
+            if (!sellItem) {
+                throw SellNotFound;
+            }
+            if (sellItem.status !== SellStatus.Paid) {
+                throw NotRefundable;
+            }
+
+            const { reason, note } = readReason(req.body);
+            const plan = await planRefund(sellItem, req.body);
+
+            const creditNote = await issueCreditNote(
+                {
+                    sell: sellItem._id,
+                    kind: "refund",
+                    reason,
+                    note,
+                    ...plan,
+                    requestedBy: user.id,
+                },
+                await needsRefundApproval(sellItem, plan.amount, user)
+            );
+
+            res.status(200).json({
+                result: "success",
+                message:
+                    creditNote.status === CreditNoteStatus.Pending
+                        ? "Refund waiting for approval"
+                        : "Refund applied",
+                creditNote,
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /sell/report:
+ *   get:
+ *     summary: Sales report over a period
+ *     description: "Revenue and tax of the sales paid in the period, minus the refunds approved in the period. Voids and refunds still waiting for approval are reported apart. Sales recorded before sales had a status are dated by their sellDate."
+ *     tags:
+ *       - Sell
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the period, the start of today by default
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the period, now by default
+ *     responses:
+ *       200:
+ *         description: The report
  *         content:
  *           application/json:
  *             schema:
@@ -566,53 +1251,223 @@ SellRoutes.delete(
  *               properties:
  *                 result:
  *                   type: string
- *                   example: error
- *                 message:
- *                   type: string
- *                   example: Not found
+ *                   example: success
+ *                 report:
+ *                   type: object
+ *                   properties:
+ *                     from:
+ *                       type: string
+ *                       format: date-time
+ *                     to:
+ *                       type: string
+ *                       format: date-time
+ *                     sales:
+ *                       type: object
+ *                       properties:
+ *                         count:
+ *                           type: integer
+ *                           example: 120
+ *                         gross:
+ *                           type: number
+ *                           example: 540.5
+ *                         tax:
+ *                           type: number
+ *                           example: 49.14
+ *                         serviceCharge:
+ *                           type: number
+ *                           example: 12
+ *                     refunds:
+ *                       type: object
+ *                       properties:
+ *                         count:
+ *                           type: integer
+ *                           example: 3
+ *                         amount:
+ *                           type: number
+ *                           example: 13.5
+ *                         tax:
+ *                           type: number
+ *                           example: 1.23
+ *                     pendingRefunds:
+ *                       type: object
+ *                       properties:
+ *                         count:
+ *                           type: integer
+ *                         amount:
+ *                           type: number
+ *                     voids:
+ *                       type: object
+ *                       properties:
+ *                         count:
+ *                           type: integer
+ *                           example: 2
+ *                         returned:
+ *                           type: number
+ *                           description: Payments handed back on voided sales
+ *                           example: 4
+ *                     net:
+ *                       type: object
+ *                       properties:
+ *                         revenue:
+ *                           type: number
+ *                           example: 527
+ *                         tax:
+ *                           type: number
+ *                           example: 47.91
+ *       400:
+ *         description: Invalid period
  */
-SellRoutes.put(
-    "/update/:id",
+SellRoutes.get(
+    "/report",
     limiter,
-    requireRole(Role.Employee),
+    requirePermission(Permission.VIEW_ALL_REPORTS),
     async (req: Request, res: Response) => {
-        const { voucher, values } = req.body;
-        let discount = 0;
+        const startOfDay = new Date();
+        startOfDay.setHours(0, 0, 0, 0);
+        const from = req.query.from
+            ? new Date(req.query.from as string)
+            : startOfDay;
+        const to = req.query.to ? new Date(req.query.to as string) : new Date();
 
-        if (voucher) {
-            const voucherDoc = await VoucherModel.findById(voucher);
-            if (voucherDoc) {
-                discount = voucherDoc.value;
+        try {
+            if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+                throw PeriodNotValid;
             }
-        }
 
-        const totalValue = values.reduce(
-            (acc, item) => acc + item.price * item.quant,
-            0
-        );
-        const finalValue = totalValue - discount;
-
-        SellModel.findByIdAndUpdate(
-            req.params.id,
-            { ...req.body, finalValue },
-            {
-                new: true,
-            }
-        )
-            .then((sellItem) => {
-                if (!sellItem) {
-                    res.status(404).json({
-                        result: "error",
-                        message: "Not found",
-                    });
-                    return;
-                }
-                res.status(200).json({
-                    result: "success",
-                    sellItem,
-                });
-            })
-            .catch((err) => handleError(err, res));
+            const [sales] = await SellModel.aggregate([
+                { $match: { status: SellStatus.Paid } },
+                {
+                    $addFields: {
+                        paidAt: {
+                            $ifNull: [
+                                {
+                                    $first: {
+                                        $filter: {
+                                            input: "$statusHistory",
+                                            cond: {
+                                                $eq: [
+                                                    "$$this.to",
+                                                    SellStatus.Paid,
+                                                ],
+                                            },
+                                        },
+                                    },
+                                },
+                                null,
+                            ],
+                        },
+                    },
+                },
+                {
+                    $addFields: {
+                        paidAt: {
+                            $ifNull: [
+                                "$paidAt.at",
+                                {
+                                    $convert: {
+                                        input: "$sellDate",
+                                        to: "date",
+                                        onError: null,
+                                        onNull: null,
+                                    },
+                                },
+                            ],
+                        },
+                    },
+                },
+                { $match: { paidAt: { $gte: from, $lte: to } } },
+                {
+                    $group: {
+                        _id: null,
+                        count: { $sum: 1 },
+                        gross: { $sum: "$finalValue" },
+                        tax: { $sum: "$taxTotal" },
+                        serviceCharge: { $sum: "$serviceCharge" },
+                    },
+                },
+            ]);
+
+            const creditNotes = await CreditNoteModel.aggregate([
+                {
+                    $addFields: {
+                        dated: {
+                            $cond: [
+                                { $eq: ["$status", CreditNoteStatus.Pending] },
+                                "$requestedAt",
+                                "$reviewedAt",
+                            ],
+                        },
+                    },
+                },
+                {
+                    $match: {
+                        dated: { $gte: from, $lte: to },
+                        status: { $ne: CreditNoteStatus.Rejected },
+                    },
+                },
+                {
+                    $group: {
+                        _id: { kind: "$kind", status: "$status" },
+                        count: { $sum: 1 },
+                        amount: { $sum: "$amount" },
+                        tax: { $sum: "$tax" },
+                    },
+                },
+            ]);
+            const findNotes = (kind: string, status: CreditNoteStatus) =>
+                creditNotes.find(
+                    (group) =>
+                        group._id.kind === kind && group._id.status === status
+                ) ?? { count: 0, amount: 0, tax: 0 };
+
+            const refunds = findNotes("refund", CreditNoteStatus.Approved);
+            const pending = findNotes("refund", CreditNoteStatus.Pending);
+            const voids = findNotes("void", CreditNoteStatus.Approved);
+            const voidedSales = await SellModel.countDocuments({
+                status: SellStatus.Cancelled,
+                statusHistory: {
+                    $elemMatch: {
+                        to: SellStatus.Cancelled,
+                        at: { $gte: from, $lte: to },
+                    },
+                },
+            });
+
+            const gross = roundMoney(sales?.gross ?? 0);
+            const tax = roundMoney(sales?.tax ?? 0);
+            res.status(200).json({
+                result: "success",
+                report: {
+                    from,
+                    to,
+                    sales: {
+                        count: sales?.count ?? 0,
+                        gross,
+                        tax,
+                        serviceCharge: roundMoney(sales?.serviceCharge ?? 0),
+                    },
+                    refunds: {
+                        count: refunds.count,
+                        amount: roundMoney(refunds.amount),
+                        tax: roundMoney(refunds.tax),
+                    },
+                    pendingRefunds: {
+                        count: pending.count,
+                        amount: roundMoney(pending.amount),
+                    },
+                    voids: {
+                        count: voidedSales,
+                        returned: roundMoney(voids.amount),
+                    },
+                    net: {
+                        revenue: roundMoney(gross - refunds.amount),
+                        tax: roundMoney(tax - refunds.tax),
+                    },
+                },
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
     }
 );
 
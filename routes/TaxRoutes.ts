@@ -0,0 +1,209 @@
+import { Router, Request, Response } from "express";
+
+import TaxRateModel from "../models/TaxRateModel";
+import BaseError from "../types/error";
+import { handleError } from "../helpers/errors";
+import { checkEmptyFields } from "../helpers/general";
+import { getTaxSettings } from "../helpers/tax";
+import { Permission, Role } from "../types/role";
+import { requireRole, requirePermission } from "../middleware/auth/RoleAuth";
+import limiter from "../middleware/RateLimiter";
+
+const TaxRoutes = Router();
+
+const TaxRateNotFound = new BaseError("Tax rate not found", 404);
+const TaxRateNotValid = new BaseError(
+    "rate must be a percentage between 0 and 100",
+    400
+);
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Tax
+ *     description: Tax rates per menu category and service charge
+ * /tax/rates:
+ *   get:
+ *     summary: List tax rates
+ *     description: List the tax rate of each menu category along with the global settings. Categories without a rate are taxed at the default rate.
+ *     tags:
+ *       - Tax
+ *     responses:
+ *       200:
+ *         description: Tax rates and settings
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: string
+ *                   example: success
+ *                 rates:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       category:
+ *                         type: string
+ *                         example: drink
+ *                       name:
+ *                         type: string
+ *                         example: VAT 10%
+ *                       rate:
+ *                         type: number
+ *                         example: 10
+ *                 settings:
+ *                   type: object
+ *                   properties:
+ *                     pricesIncludeTax:
+ *                       type: boolean
+ *                       example: true
+ *                     defaultRate:
+ *                       type: number
+ *                       example: 0
+ *                     serviceChargeRate:
+ *                       type: number
+ *                       example: 5
+ *                     serviceChargeTaxRate:
+ *                       type: number
+ *                       example: 10
+ */
+TaxRoutes.get(
+    "/rates",
+    limiter,
+    requirePermission(Permission.VIEW_MENU_ITEMS),
+    async (req: Request, res: Response) => {
+        try {
+            const rates = await TaxRateModel.find()
+                .sort({ category: 1 })
+                .exec();
+            res.status(200).json({
+                result: "success",
+                rates,
+                settings: getTaxSettings(),
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /tax/rates/{category}:
+ *   put:
+ *     summary: Set the tax rate of a menu category
+ *     description: Add or replace the rate applied to menu items of a category (their type). Only sales made afterwards use the new rate.
+ *     tags:
+ *       - Tax
+ *     parameters:
+ *       - in: path
+ *         name: category
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - rate
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: VAT 10%
+ *               rate:
+ *                 type: number
+ *                 example: 10
+ *     responses:
+ *       200:
+ *         description: Tax rate saved
+ *       400:
+ *         description: Missing fields or rate out of range
+ */
+TaxRoutes.put(
+    "/rates/:category",
+    limiter,
+    requireRole(Role.Accounting),
+    async (req: Request, res: Response) => {
+        if (checkEmptyFields(["name", "rate"], req.body)) {
+            res.status(400).json({
+                result: "error",
+                message: "Missing required fields",
+            });
+            return;
+        }
+
+        const { name, rate } = req.body;
+        const { category } = req.params as { category: string };
+
+        try {
+            if (typeof rate !== "number" || !(rate >= 0 && rate <= 100)) {
+                throw TaxRateNotValid;
+            }
+
+            const taxRate = await TaxRateModel.findOneAndUpdate(
+                { category },
+                { $set: { name, rate, updatedAt: new Date() } },
+                { upsert: true, new: true, runValidators: true }
+            ).exec();
+
+            res.status(200).json({
+                result: "success",
+                message: "Tax rate saved",
+                taxRate,
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /tax/rates/{category}:
+ *   delete:
+ *     summary: Remove the tax rate of a menu category
+ *     description: The category falls back to the default rate.
+ *     tags:
+ *       - Tax
+ *     parameters:
+ *       - in: path
+ *         name: category
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tax rate removed
+ *       404:
+ *         description: Tax rate not found
+ */
+TaxRoutes.delete(
+    "/rates/:category",
+    limiter,
+    requireRole(Role.Accounting),
+    async (req: Request, res: Response) => {
+        try {
+            const taxRate = await TaxRateModel.findOneAndDelete({
+                category: req.params.category,
+            }).exec();
+            if (!taxRate) {
+                throw TaxRateNotFound;
+            }
+
+            res.status(200).json({
+                result: "success",
+                message: "Tax rate removed",
+            });
+        } catch (err) {
+            handleError(err, res);
+        }
+    }
+);
+
+export default TaxRoutes;
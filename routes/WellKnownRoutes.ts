@@ -0,0 +1,62 @@
+import { Router, Request, Response } from "express";
+
+import { handleError } from "../helpers/errors";
+import { ensureSigningKeys, getJwks } from "../helpers/keys";
+
+const WellKnownRoutes = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   - name: WellKnown
+ *     description: Public metadata for other services
+ * /.well-known/jwks.json:
+ *   get:
+ *     summary: Token signing keys
+ *     description: Public keys (JWK Set) used to sign access tokens, selected by the kid header of a token. Keys are published before they start signing and stay listed while tokens they signed can still be valid.
+ *     tags:
+ *       - WellKnown
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: JWK Set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 keys:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       kty:
+ *                         type: string
+ *                         example: EC
+ *                       crv:
+ *                         type: string
+ *                         example: P-256
+ *                       x:
+ *                         type: string
+ *                       y:
+ *                         type: string
+ *                       kid:
+ *                         type: string
+ *                         example: 3f0c1d9e-6a3b-4c2d-8e1f-5a6b7c8d9e0f
+ *                       use:
+ *                         type: string
+ *                         example: sig
+ *                       alg:
+ *                         type: string
+ *                         example: ES256
+ */
+WellKnownRoutes.get("/jwks.json", (req: Request, res: Response) => {
+    ensureSigningKeys()
+        .then(() => {
+            res.set("Cache-Control", "public, max-age=300");
+            res.json(getJwks());
+        })
+        .catch((err) => handleError(err, res));
+});
+
+export default WellKnownRoutes;
@@ -1,8 +1,11 @@
 export default class BaseError extends Error {
     errorCode: number;
-    constructor(message: string, errorCode: number = 400) {
+    // sent to the client as `errors` next to the message
+    details?: unknown;
+    constructor(message: string, errorCode: number = 400, details?: unknown) {
         super(message);
         this.name = "BaseError";
         this.errorCode = errorCode;
+        this.details = details;
     }
 }
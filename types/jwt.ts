@@ -1,8 +1,34 @@
+// Tokens handed out before a login is complete only allow one follow-up call.
+type TokenRestriction = "change-password" | "enroll-2fa";
+
+// Admin acting as another account, see helpers/impersonation.ts
+interface Impersonator {
+    id: string;
+    email: string;
+    name: string;
+}
+
 interface JwtPayload {
     id: string;
     email: string;
     name: string;
     role: string;
+    sid?: string;
+    restriction?: TokenRestriction;
+    impersonator?: Impersonator;
+    // impersonation tokens are read-only unless this is set
+    allowWrite?: boolean;
+    jti?: string;
+    iat?: number;
+    exp?: number;
+}
+
+interface ActionTokenPayload {
+    sub: string;
+    purpose: string;
+    jti?: string;
+    iat?: number;
+    exp?: number;
 }
 
-export type { JwtPayload };
+export type { JwtPayload, ActionTokenPayload, TokenRestriction, Impersonator };
@@ -0,0 +1,11 @@
+interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+interface MailTransport {
+    send(message: MailMessage): Promise<void>;
+}
+
+export type { MailMessage, MailTransport };
@@ -32,6 +32,9 @@ enum Permission {
     SUBMIT_REPORTS = "submit_reports",
     VIEW_MENU_ITEMS = "view_menu_items",
 
+    // Sales permissions
+    APPROVE_REFUNDS = "approve_refunds",
+
     // Customer permissions
     VIEW_PRODUCTS = "view_products",
     PLACE_ORDERS = "place_orders",
@@ -44,11 +47,22 @@ enum Permission {
 // Define role structure
 interface RoleDefinition {
     isManager: boolean;
-    extendFrom?: Role[];
+    extendFrom?: string[];
     permissions: Permission[];
 }
 
-// Define permissions for each role
+// Per-account exception to the role permissions. Denials win over grants and
+// over the role itself.
+type PermissionEffect = "grant" | "deny";
+
+interface PermissionOverride {
+    permission: Permission;
+    effect: PermissionEffect;
+    expiresAt?: Date;
+}
+
+// Built-in roles, seeded into the database on startup. Roles are resolved
+// from the database afterwards, see helpers/roles.ts
 const RoleDefinitions: Record<Role, RoleDefinition> = {
     [Role.Admin]: {
         isManager: false, // Admin is special and not considered a manager
@@ -61,6 +75,7 @@ const RoleDefinitions: Record<Role, RoleDefinition> = {
             Permission.VIEW_EMPLOYEE_RECORDS,
             Permission.VIEW_WAREHOUSE_REPORTS,
             Permission.VIEW_SUPPLIERS,
+            Permission.APPROVE_REFUNDS,
         ],
     },
     [Role.WarehouseManager]: {
@@ -82,6 +97,7 @@ const RoleDefinitions: Record<Role, RoleDefinition> = {
             Permission.MANAGE_SCHEDULES,
             Permission.VIEW_EMPLOYEE_RECORDS,
             Permission.VIEW_ALL_REPORTS,
+            Permission.APPROVE_REFUNDS,
         ],
     },
     [Role.Employee]: {
@@ -105,17 +121,37 @@ function isValidRole(role: string): role is Role {
     return Object.values(Role).includes(role as Role);
 }
 
-function getAllPermissions(role: Role): Permission[] {
-    const permissions = RoleDefinitions[role].permissions;
-    if (RoleDefinitions[role].extendFrom) {
+function isValidPermission(permission: string): permission is Permission {
+    return Object.values(Permission).includes(permission as Permission);
+}
+
+function getAllPermissions(
+    role: string,
+    definitions: Record<string, RoleDefinition> = RoleDefinitions,
+    visited: string[] = []
+): Permission[] {
+    const definition = definitions[role];
+    if (!definition || visited.includes(role)) {
+        return [];
+    }
+
+    const permissions = definition.permissions;
+    if (definition.extendFrom) {
         return permissions.concat(
-            ...RoleDefinitions[role].extendFrom.map((extendRole) =>
-                getAllPermissions(extendRole)
+            ...definition.extendFrom.map((extendRole) =>
+                getAllPermissions(extendRole, definitions, [...visited, role])
             )
         );
     }
     return permissions;
 }
 
-export type { RoleDefinition };
-export { Role, Permission, RoleDefinitions, isValidRole, getAllPermissions };
+export type { RoleDefinition, PermissionOverride, PermissionEffect };
+export {
+    Role,
+    Permission,
+    RoleDefinitions,
+    isValidRole,
+    isValidPermission,
+    getAllPermissions,
+};
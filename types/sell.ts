@@ -0,0 +1,94 @@
+// Lifecycle of a sale, from the order being taken to it being paid or
+// cancelled. Paid and cancelled are final.
+enum SellStatus {
+    Pending = "pending",
+    Preparing = "preparing",
+    Ready = "ready",
+    Paid = "paid",
+    Cancelled = "cancelled",
+}
+
+// Dine-in orders pay the service charge
+enum OrderType {
+    DineIn = "dine-in",
+    Takeaway = "takeaway",
+}
+
+enum PaymentMethod {
+    Cash = "cash",
+    Card = "card",
+    EWallet = "e-wallet",
+    Voucher = "voucher",
+    StoreCredit = "store-credit",
+}
+
+// Why a sale was voided or refunded. "other" needs a note.
+enum RefundReason {
+    CustomerRequest = "customer-request",
+    WrongOrder = "wrong-order",
+    QualityIssue = "quality-issue",
+    Duplicate = "duplicate",
+    PricingError = "pricing-error",
+    Other = "other",
+}
+
+// How refunded money goes back. Voids hand every payment back the way it was
+// made ("original"); vouchers are never refunded as vouchers.
+enum RefundMethod {
+    Cash = "cash",
+    Card = "card",
+    EWallet = "e-wallet",
+    StoreCredit = "store-credit",
+    Original = "original",
+}
+
+// Refunds above the approval threshold wait for someone allowed to approve
+enum CreditNoteStatus {
+    Pending = "pending",
+    Approved = "approved",
+    Rejected = "rejected",
+}
+
+// Statuses each status can move to
+const SellTransitions: Record<SellStatus, SellStatus[]> = {
+    [SellStatus.Pending]: [SellStatus.Preparing, SellStatus.Cancelled],
+    [SellStatus.Preparing]: [SellStatus.Ready, SellStatus.Cancelled],
+    [SellStatus.Ready]: [SellStatus.Paid, SellStatus.Cancelled],
+    [SellStatus.Paid]: [],
+    [SellStatus.Cancelled]: [],
+};
+
+function isValidSellStatus(status: string): status is SellStatus {
+    return Object.values(SellStatus).includes(status as SellStatus);
+}
+
+function isValidOrderType(orderType: string): orderType is OrderType {
+    return Object.values(OrderType).includes(orderType as OrderType);
+}
+
+function isValidPaymentMethod(method: string): method is PaymentMethod {
+    return Object.values(PaymentMethod).includes(method as PaymentMethod);
+}
+
+function isValidRefundReason(reason: string): reason is RefundReason {
+    return Object.values(RefundReason).includes(reason as RefundReason);
+}
+
+function canTransition(from: SellStatus, to: SellStatus): boolean {
+    return SellTransitions[from].includes(to);
+}
+
+export {
+    SellStatus,
+    OrderType,
+    PaymentMethod,
+    RefundReason,
+    RefundMethod,
+    CreditNoteStatus,
+    SellTransitions,
+    isValidSellStatus,
+    isValidOrderType,
+    isValidPaymentMethod,
+    isValidRefundReason,
+    canTransition,
+};
@@ -0,0 +1,14 @@
+interface StoredFile {
+    data: Buffer;
+    contentType: string;
+}
+
+// Where uploaded files live. Keys are generated by the server and use "/" as
+// a separator whatever the backend.
+interface StorageDriver {
+    put(key: string, data: Buffer, contentType: string): Promise<void>;
+    get(key: string): Promise<StoredFile | null>;
+    remove(key: string): Promise<void>;
+}
+
+export type { StoredFile, StorageDriver };